@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Cheat } from './types';
+import { log } from './utils/logger';
+
+// Game Genie letters, in order of the nibble value they encode
+const GAME_GENIE_LETTERS = 'APZLGITYEOXUKSVN';
+
+export interface DecodedCheat {
+  address: number;
+  value: number;
+  compare?: number;
+}
+
+/**
+ * Decode a 6- or 8-letter Game Genie code into a PRG patch
+ * @see https://www.nesdev.org/wiki/Game_Genie
+ */
+export function decodeGameGenie(code: string): DecodedCheat {
+  const letters = code.toUpperCase().replace(/-/g, '');
+  if (letters.length !== 6 && letters.length !== 8) {
+    throw new Error(`Game Genie codes have 6 or 8 letters: ${code}`);
+  }
+
+  const n = Array.from(letters).map(letter => {
+    const nibble = GAME_GENIE_LETTERS.indexOf(letter);
+    if (nibble === -1) {
+      throw new Error(`Invalid Game Genie letter "${letter}" in ${code}`);
+    }
+    return nibble;
+  });
+
+  const address = 0x8000 +
+    (((n[3] & 7) << 12) |
+      ((n[5] & 7) << 8) | ((n[4] & 8) << 8) |
+      ((n[2] & 7) << 4) | ((n[1] & 8) << 4) |
+      (n[4] & 7) | (n[3] & 8));
+
+  if (n.length === 6) {
+    const value = ((n[1] & 7) << 4) | ((n[0] & 8) << 4) | (n[0] & 7) | (n[5] & 8);
+    return { address, value };
+  }
+
+  const value = ((n[1] & 7) << 4) | ((n[0] & 8) << 4) | (n[0] & 7) | (n[7] & 8);
+  const compare = ((n[7] & 7) << 4) | ((n[6] & 8) << 4) | (n[6] & 7) | (n[5] & 8);
+  return { address, value, compare };
+}
+
+/**
+ * Decode a raw "ADDR:VAL" or "ADDR:VAL:CMP" hex code
+ */
+export function decodeRawCheat(code: string): DecodedCheat {
+  const match = /^\$?([0-9a-f]{1,4}):([0-9a-f]{1,2})(?::([0-9a-f]{1,2}))?$/i.exec(code.trim());
+  if (!match) {
+    throw new Error(`Invalid raw cheat code (expected ADDR:VAL[:CMP] in hex): ${code}`);
+  }
+
+  const address = parseInt(match[1], 16);
+  if (address >= 0x0800 && address < 0x6000) {
+    throw new Error(`Raw cheats must target work RAM ($0000-$07FF), SRAM ($6000-$7FFF) or PRG-ROM ($8000-$FFFF): ${code}`);
+  }
+
+  const decoded: DecodedCheat = { address, value: parseInt(match[2], 16) };
+  if (match[3] !== undefined) {
+    decoded.compare = parseInt(match[3], 16);
+  }
+  return decoded;
+}
+
+/**
+ * Decode either a Game Genie code or a raw ADDR:VAL[:CMP] code
+ */
+export function decodeCheat(code: string): DecodedCheat {
+  return code.includes(':') ? decodeRawCheat(code) : decodeGameGenie(code);
+}
+
+function cheatFilePath(romHash: string): string {
+  return path.join(process.cwd(), 'cheats', `${romHash}.json`);
+}
+
+/**
+ * Load the cheats saved for a ROM (empty if none were saved)
+ */
+export function loadCheats(romHash: string): Cheat[] {
+  const filePath = cheatFilePath(romHash);
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')).cheats ?? [];
+  } catch (error) {
+    log.error(`Error reading cheat file: ${filePath}`, error instanceof Error ? error.message : String(error));
+    return [];
+  }
+}
+
+/**
+ * Save the cheats for a ROM, keyed by its hash
+ */
+export function saveCheats(romHash: string, romPath: string, cheats: Cheat[]): void {
+  const filePath = cheatFilePath(romHash);
+  const cheatsDir = path.dirname(filePath);
+  if (!fs.existsSync(cheatsDir)) {
+    fs.mkdirSync(cheatsDir);
+    log.info('Created cheats directory');
+  }
+  fs.writeFileSync(filePath, JSON.stringify({ rom: path.basename(romPath), cheats }, null, 2));
+}
@@ -1,18 +1,83 @@
 import { NESEmulator } from './nes';
-import { NESButton } from './types';
-import { ImageContent } from '@modelcontextprotocol/sdk/types.js';
+import {
+  NESButton,
+  NESPlayer,
+  SaveStateInfo,
+  InputStep,
+  MemoryRegion,
+  MemoryFreeze,
+  RamSearchComparison,
+  RamSearchCandidate,
+  Cheat,
+  MoviePlaybackResult,
+  ScreenshotOptions,
+  ScreenRegion,
+  WaitCondition,
+  WaitUntilResult,
+  SpriteInfo,
+  SpriteGroup,
+  AudioCaptureInfo,
+  ClipOptions,
+  ClipInfo,
+  RomInfo,
+  LoadRomOptions
+} from './types';
+import { RamSearch } from './ramSearch';
+import { WaitUntil } from './waitUntil';
+import { visibleSprites, groupSprites } from './sprites';
+import { renderNametables, renderPatternTables, renderPalettes } from './ppuViewer';
+import { decodeCheat, loadCheats, saveCheats } from './cheats';
+import { loadMacros, saveMacros } from './macros';
+import { loadMovie, saveMovie } from './movie';
+import { readRomInfo } from './romInfo';
+import { findRomPatch, readRomFile, romExists, recordRomPlayed } from './romLibrary';
+import { TileMap, parseTileMap, renderScreenText, loadTileMap, saveTileMap } from './screenText';
+import { ImageContent, TextContent } from '@modelcontextprotocol/sdk/types.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import { log } from './utils/logger';
+import { encodeScreenshot, encodePng, resolveScreenshotOptions } from './utils/screenshot';
+import { encodeWav, measureLevels } from './utils/audio';
+import { patchMatchesSource } from './utils/patch';
+import { encodeGif, encodeApng, CLIP_MIME_TYPES } from './utils/animation';
+
+const SCREEN_WIDTH = 256;
+const SCREEN_HEIGHT = 240;
+// Clips keep every captured frame in memory until they are encoded
+const MAX_CLIP_IMAGES = 600;
+// Buttons are released for a frame after each step, so repeated steps register as separate presses
+const DEFAULT_RELEASE_FRAMES = 1;
+
+// A screenshot, or a short text stand-in when the caller asked to skip the image
+export type ScreenContent = ImageContent | TextContent;
+
+export interface InputSequenceResult {
+  // Screens captured after steps marked with `screenshot: true`
+  screenshots: { step: number; screen: ScreenContent }[];
+  // Screen after the last step
+  screen: ScreenContent;
+  framesElapsed: number;
+}
 
 export class EmulatorService {
   private emulator: NESEmulator;
+  private ramSearch: RamSearch = new RamSearch();
+  // Tile -> character map for get_screen_text, loaded per ROM
+  private tileMap?: TileMap;
 
   constructor(emulator: NESEmulator) {
     this.emulator = emulator;
     log.info('EmulatorService initialized');
   }
 
+  /**
+   * Flush anything that must outlive the emulator (battery-backed SRAM)
+   */
+  shutdown(): void {
+    log.info('EmulatorService shutting down');
+    this.emulator.flushSram();
+  }
+
   isRomLoaded(): boolean {
     return this.emulator.isRomLoaded();
   }
@@ -21,15 +86,75 @@ export class EmulatorService {
     return this.emulator.getRomPath();
   }
 
-  loadRom(romPath: string): ImageContent {
+  /**
+   * Header fields and hashes of a ROM file, or of the loaded ROM when no path is given
+   */
+  getRomInfo(romPath?: string): RomInfo {
+    const target = romPath ?? this.emulator.getRomPath();
+    log.debug(`Reading ROM info: ${target}`);
+    if (!target) {
+      log.warn('Attempted to read ROM info with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+    // The loaded ROM may have been patched, so describe what is actually running
+    const data = romPath === undefined ? this.emulator.getRomData() : undefined;
+    return readRomInfo(target, data ?? readRomFile(target));
+  }
+
+  /**
+   * The loaded ROM image (after patching), e.g. for the browser emulator
+   */
+  getRomData(): Buffer | undefined {
+    return this.emulator.getRomData();
+  }
+
+  /**
+   * Patches applied to the loaded ROM
+   */
+  getRomPatches(): string[] {
+    return this.emulator.getRomPatches();
+  }
+
+  /**
+   * The patch named after a ROM, unless it was made for a different ROM. A same-named patch is
+   * only a guess, so a mismatch is skipped with a warning instead of failing the load.
+   */
+  private findAutoPatch(romPath: string): string | undefined {
+    const patchPath = findRomPatch(romPath);
+    if (!patchPath) {
+      return undefined;
+    }
+    try {
+      if (patchMatchesSource(readRomFile(romPath), readRomFile(patchPath))) {
+        return patchPath;
+      }
+      log.warn(`Not applying ${patchPath}: it is not a patch for ${romPath}`);
+    } catch (error) {
+      log.warn(`Not applying ${patchPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return undefined;
+  }
+
+  async loadRom(romPath: string, options: LoadRomOptions = {}): Promise<ScreenContent> {
     log.info(`Attempting to load ROM: ${romPath}`);
-    if (!fs.existsSync(romPath)) {
+    if (!romExists(romPath)) {
       log.error(`ROM file not found: ${romPath}`);
       throw new Error(`ROM file not found: ${romPath}`);
     }
+    for (const patchPath of options.patches ?? []) {
+      if (!romExists(patchPath)) {
+        log.error(`Patch file not found: ${patchPath}`);
+        throw new Error(`Patch file not found: ${patchPath}`);
+      }
+    }
 
     try {
-      this.emulator.loadRom(romPath);
+      const autoPatch = options.patches === undefined && options.autoPatch !== false ? this.findAutoPatch(romPath) : undefined;
+      this.emulator.loadRom(romPath, options.patches ?? (autoPatch ? [autoPatch] : []));
+      recordRomPlayed(romPath);
+      this.ramSearch.reset();
+      this.emulator.setCheats(loadCheats(this.emulator.getRomHash()!));
+      this.tileMap = loadTileMap(this.emulator.getRomHash()!);
       log.info(`ROM loaded successfully: ${path.basename(romPath)}`);
 
       // Advance a few frames to initialize the screen
@@ -38,24 +163,182 @@ export class EmulatorService {
       }
       log.verbose('Advanced initial frames after ROM load');
 
-      return this.getScreen();
+      return await this.getScreen();
     } catch (error) {
       log.error(`Error loading ROM: ${romPath}`, error instanceof Error ? error.message : String(error));
       throw new Error(`Failed to load ROM: ${romPath}. Reason: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  pressButton(button: NESButton, durationFrames: number): ImageContent {
-    log.debug(`Pressing button: ${button}`);
+  async pressButton(
+    button: NESButton,
+    durationFrames: number,
+    player: NESPlayer = 1,
+    screenshot?: Partial<ScreenshotOptions>
+  ): Promise<ScreenContent> {
+    log.debug(`Pressing button: ${button} (player ${player})`);
     if (!this.isRomLoaded()) {
       log.warn('Attempted to press button with no ROM loaded');
       throw new Error('No ROM loaded');
     }
-    this.emulator.pressButton(button, durationFrames);
-    return this.getScreen();
+    this.emulator.pressButton(button, durationFrames, player);
+    return this.getScreen(screenshot);
   }
 
-  waitFrames(durationFrames: number): ImageContent {
+  async pressButtons(
+    buttons: NESButton[],
+    durationFrames: number,
+    player: NESPlayer = 1,
+    screenshot?: Partial<ScreenshotOptions>
+  ): Promise<ScreenContent> {
+    log.debug(`Pressing buttons: ${buttons.join('+')} (player ${player})`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to press buttons with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+    this.emulator.pressButtons(buttons, durationFrames, 1, player);
+    return this.getScreen(screenshot);
+  }
+
+  async executeInputSequence(steps: InputStep[], player: NESPlayer = 1): Promise<InputSequenceResult> {
+    log.debug(`Executing input sequence of ${steps.length} steps (player ${player})`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to execute input sequence with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+
+    const screenshots: InputSequenceResult['screenshots'] = [];
+    let framesElapsed = 0;
+
+    for (const [index, step] of steps.entries()) {
+      framesElapsed += this.runInputStep(step, player);
+
+      if (step.screenshot) {
+        screenshots.push({ step: index, screen: await this.getScreen() });
+      }
+    }
+
+    log.verbose(`Executed input sequence (${framesElapsed} frames)`);
+    return { screenshots, screen: await this.getScreen(), framesElapsed };
+  }
+
+  /**
+   * Run frames and encode every Nth one as an animated GIF or APNG. With an input
+   * sequence, the clip runs the sequence and then waits out the remaining frames.
+   */
+  async recordClip(options: ClipOptions): Promise<{ data: Buffer; mimeType: string; info: ClipInfo }> {
+    log.debug(`Recording ${options.format} clip, capturing every ${options.every} frame(s)`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to record a clip with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+
+    const steps = options.steps ?? [];
+    const sequenceFrames = steps.reduce((total, step) => total + step.frames + releaseFramesOf(step), 0);
+    const totalFrames = options.frames ?? sequenceFrames;
+    if (totalFrames === 0) {
+      throw new Error('Give the number of frames to record or an input sequence');
+    }
+    if (totalFrames < sequenceFrames) {
+      throw new Error(`frames (${totalFrames}) is shorter than the input sequence (${sequenceFrames} frames)`);
+    }
+    const imageCount = Math.ceil(totalFrames / options.every);
+    if (imageCount > MAX_CLIP_IMAGES) {
+      throw new Error(`Clip would have ${imageCount} images (limit ${MAX_CLIP_IMAGES}); raise "every" or lower "frames"`);
+    }
+
+    // Grab the first frame and every Nth frame after it
+    const images: Buffer[] = [];
+    let framesRun = 0;
+    this.emulator.setFrameListener(() => {
+      if (framesRun % options.every === 0) {
+        images.push(this.emulator.getScreenRgb());
+      }
+      framesRun++;
+    });
+    try {
+      for (const step of steps) {
+        this.runInputStep(step, options.player ?? 1);
+      }
+      while (framesRun < totalFrames) {
+        this.emulator.doFrame();
+      }
+    } finally {
+      this.emulator.setFrameListener(undefined);
+    }
+
+    const data = options.format === 'apng'
+      ? encodeApng(images, SCREEN_WIDTH, SCREEN_HEIGHT, options.scale, options.every, 60)
+      : encodeGif(images, SCREEN_WIDTH, SCREEN_HEIGHT, options.scale, options.every / 60);
+    const info: ClipInfo = {
+      format: options.format,
+      framesRun,
+      images: images.length,
+      width: SCREEN_WIDTH * options.scale,
+      height: SCREEN_HEIGHT * options.scale,
+      durationSeconds: images.length * options.every / 60,
+      bytes: data.length
+    };
+    if (options.path) {
+      fs.mkdirSync(path.dirname(options.path), { recursive: true });
+      fs.writeFileSync(options.path, data);
+      info.path = options.path;
+    }
+    log.info(`Recorded ${images.length}-image ${options.format} clip over ${framesRun} frames`);
+    return { data, mimeType: CLIP_MIME_TYPES[options.format], info };
+  }
+
+  /**
+   * Run one input step and return the number of frames it took
+   */
+  private runInputStep(step: InputStep, player: NESPlayer): number {
+    const releaseFrames = releaseFramesOf(step);
+    if (step.buttons.length > 0) {
+      this.emulator.pressButtons(step.buttons, step.frames, releaseFrames, player);
+    } else {
+      // No buttons: just let the game run
+      for (let i = 0; i < step.frames + releaseFrames; i++) {
+        this.emulator.doFrame();
+      }
+    }
+    return step.frames + releaseFrames;
+  }
+
+  /**
+   * Save a macro to macros/macros.json. The file is re-read for every macro operation,
+   * so sessions see each other's macros and don't overwrite them.
+   */
+  saveMacro(name: string, steps: InputStep[]): void {
+    log.info(`Saving macro "${name}" (${steps.length} steps)`);
+    const macros = loadMacros();
+    macros.set(name, steps);
+    saveMacros(macros);
+  }
+
+  runMacro(name: string, player: NESPlayer = 1): Promise<InputSequenceResult> {
+    log.debug(`Running macro: ${name}`);
+    const steps = loadMacros().get(name);
+    if (!steps) {
+      throw new Error(`No macro named "${name}"`);
+    }
+    return this.executeInputSequence(steps, player);
+  }
+
+  listMacros(): { name: string; steps: InputStep[] }[] {
+    return Array.from(loadMacros().entries()).map(([name, steps]) => ({ name, steps }));
+  }
+
+  deleteMacro(name: string): boolean {
+    log.debug(`Deleting macro: ${name}`);
+    const macros = loadMacros();
+    if (!macros.delete(name)) {
+      return false;
+    }
+    saveMacros(macros);
+    return true;
+  }
+
+  async waitFrames(durationFrames: number, screenshot?: Partial<ScreenshotOptions>): Promise<ScreenContent> {
     log.debug(`Waiting for ${durationFrames} frames`);
     if (!this.isRomLoaded()) {
       log.warn('Attempted to wait frames with no ROM loaded');
@@ -65,31 +348,462 @@ export class EmulatorService {
       this.emulator.doFrame();
     }
     log.verbose(`Waited ${durationFrames} frames`);
+    return this.getScreen(screenshot);
+  }
+
+  /**
+   * Advance frames until one of the conditions holds or maxFrames have run
+   */
+  async waitUntil(
+    conditions: WaitCondition[],
+    maxFrames: number,
+    screenshot?: Partial<ScreenshotOptions>
+  ): Promise<{ result: WaitUntilResult; screen: ScreenContent }> {
+    log.debug(`Waiting up to ${maxFrames} frames for ${conditions.length} condition(s)`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to wait with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+
+    const wait = new WaitUntil(conditions, {
+      readRam: address => this.emulator.readMemory(MemoryRegion.CPU, address, 1)[0],
+      screenHash: () => this.emulator.getScreenHash(),
+      regionHash: region => this.emulator.getRegionHash(region)
+    });
+
+    let result: WaitUntilResult = { framesElapsed: maxFrames, timedOut: true };
+    for (let frame = 1; frame <= maxFrames; frame++) {
+      this.emulator.doFrame();
+      const fired = wait.check();
+      if (fired !== undefined) {
+        result = { condition: fired, type: conditions[fired].type, framesElapsed: frame, timedOut: false };
+        break;
+      }
+    }
+
+    log.verbose(`Wait finished after ${result.framesElapsed} frames${result.timedOut ? ' (timed out)' : ''}`);
+    return { result, screen: await this.getScreen(screenshot) };
+  }
+
+  getRegionHash(region: ScreenRegion): string {
+    log.verbose(`Hashing screen region ${region.width}x${region.height} at ${region.x},${region.y}`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to hash a screen region with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+    return this.emulator.getRegionHash(region);
+  }
+
+  readMemory(region: MemoryRegion, address: number, length: number): number[] {
+    log.verbose(`Reading ${length} bytes of ${region} memory at $${address.toString(16)}`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to read memory with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+    return this.emulator.readMemory(region, address, length);
+  }
+
+  writeMemory(address: number, bytes: number[], freeze: boolean = false): void {
+    log.debug(`Writing ${bytes.length} bytes at $${address.toString(16)}${freeze ? ' (frozen)' : ''}`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to write memory with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+    if (freeze) {
+      this.emulator.freezeMemory(address, bytes);
+    } else {
+      this.emulator.writeMemory(address, bytes);
+    }
+  }
+
+  listFreezes(): MemoryFreeze[] {
+    return this.emulator.listFreezes();
+  }
+
+  clearFreeze(address?: number): number {
+    log.debug(address === undefined ? 'Clearing all freezes' : `Clearing freeze at $${address.toString(16)}`);
+    return this.emulator.clearFreeze(address);
+  }
+
+  ramSearchStart(): number {
+    log.debug('Starting RAM search');
+    const count = this.ramSearch.start(this.readWorkRam());
+    log.verbose(`RAM search started with ${count} candidates`);
+    return count;
+  }
+
+  ramSearchFilter(comparison: RamSearchComparison, value?: number): number {
+    log.debug(`Filtering RAM search: ${comparison}${value !== undefined ? ` ${value}` : ''}`);
+    const remaining = this.ramSearch.filter(this.readWorkRam(), comparison, value);
+    log.verbose(`RAM search has ${remaining} candidates left`);
+    return remaining;
+  }
+
+  ramSearchResults(limit: number): { total: number; candidates: RamSearchCandidate[] } {
+    return this.ramSearch.results(this.readWorkRam(), limit);
+  }
+
+  private readWorkRam(): number[] {
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted RAM search with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+    return this.emulator.readMemory(MemoryRegion.CPU, 0x0000, 0x800);
+  }
+
+  addCheat(code: string, description?: string): Cheat {
+    log.debug(`Adding cheat: ${code}`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to add cheat with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+
+    const normalizedCode = code.trim().toUpperCase();
+    const cheat: Cheat = { code: normalizedCode, ...decodeCheat(normalizedCode) };
+    if (description) {
+      cheat.description = description;
+    }
+
+    const cheats = this.emulator.getCheats().filter(existing => existing.code !== normalizedCode);
+    cheats.push(cheat);
+    this.setAndSaveCheats(cheats);
+    log.info(`Added cheat ${normalizedCode} ($${cheat.address.toString(16)} = ${cheat.value})`);
+    return cheat;
+  }
+
+  removeCheat(code: string): boolean {
+    log.debug(`Removing cheat: ${code}`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to remove cheat with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+
+    const normalizedCode = code.trim().toUpperCase();
+    const cheats = this.emulator.getCheats();
+    const remaining = cheats.filter(cheat => cheat.code !== normalizedCode);
+    if (remaining.length === cheats.length) {
+      return false;
+    }
+    this.setAndSaveCheats(remaining);
+    return true;
+  }
+
+  listCheats(): Cheat[] {
+    return this.emulator.getCheats();
+  }
+
+  setCheatsEnabled(enabled: boolean): void {
+    log.info(`Cheats ${enabled ? 'enabled' : 'disabled'}`);
+    this.emulator.setCheatsEnabled(enabled);
+  }
+
+  areCheatsEnabled(): boolean {
+    return this.emulator.areCheatsEnabled();
+  }
+
+  private setAndSaveCheats(cheats: Cheat[]): void {
+    this.emulator.setCheats(cheats);
+    saveCheats(this.emulator.getRomHash()!, this.emulator.getRomPath()!, cheats);
+  }
+
+  exportSram(outputPath?: string): { size: number; savPath?: string; path?: string; data?: string } {
+    log.debug(`Exporting SRAM${outputPath ? ` to ${outputPath}` : ''}`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to export SRAM with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+
+    const sram = this.emulator.exportSram();
+    const savPath = this.emulator.hasBatteryRam() ? this.emulator.getSavPath() : undefined;
+    if (outputPath) {
+      fs.writeFileSync(outputPath, sram);
+      log.info(`Exported SRAM to ${outputPath}`);
+      return { size: sram.length, savPath, path: outputPath };
+    }
+    return { size: sram.length, savPath, data: sram.toString('base64') };
+  }
+
+  importSram(source: { path?: string; data?: string }): { size: number; savPath?: string } {
+    log.debug(`Importing SRAM${source.path ? ` from ${source.path}` : ''}`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to import SRAM with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+
+    let sram: Buffer;
+    if (source.path) {
+      if (!fs.existsSync(source.path)) {
+        throw new Error(`SRAM file not found: ${source.path}`);
+      }
+      sram = fs.readFileSync(source.path);
+    } else if (source.data) {
+      sram = Buffer.from(source.data, 'base64');
+    } else {
+      throw new Error('Either path or data is required');
+    }
+
+    this.emulator.importSram(sram);
+    log.info(`Imported ${sram.length} bytes of SRAM`);
+    return { size: sram.length, savPath: this.emulator.hasBatteryRam() ? this.emulator.getSavPath() : undefined };
+  }
+
+  startRecording(fromPowerOn: boolean): void {
+    log.debug(`Starting movie recording from ${fromPowerOn ? 'power-on' : 'the current state'}`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to start recording with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+    this.emulator.startRecording(fromPowerOn);
+    log.info('Started recording movie');
+  }
+
+  /**
+   * Stop recording and write the movie; .fm2 paths are written in FCEUX format, others as JSON.
+   * Defaults to movies/<rom>-<timestamp>.fm2 (or .json for movies that start from a saved state).
+   * The recording only ends once the movie is written, so a failed write can be retried.
+   */
+  stopRecording(outputPath?: string): { path: string; frames: number; finalScreenHash?: string } {
+    log.debug('Stopping movie recording');
+    const movie = this.emulator.getRecordedMovie();
+
+    const filePath = outputPath ?? path.join(
+      process.cwd(),
+      'movies',
+      `${path.basename(movie.romFilename, path.extname(movie.romFilename))}-${Date.now()}${movie.startState ? '.json' : '.fm2'}`
+    );
+    saveMovie(filePath, movie);
+    this.emulator.stopRecording();
+    log.info(`Saved ${movie.frames.length}-frame movie to ${filePath}`);
+    return { path: filePath, frames: movie.frames.length, finalScreenHash: movie.finalScreenHash };
+  }
+
+  startAudioCapture(): void {
+    log.debug('Starting audio capture');
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to capture audio with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+    this.emulator.startAudioCapture();
+    log.info('Started audio capture');
+  }
+
+  /**
+   * Stop capturing audio and encode the frames run since startAudioCapture as a WAV file,
+   * written to outputPath when one is given
+   */
+  stopAudioCapture(outputPath?: string): { wav: Buffer; info: AudioCaptureInfo } {
+    log.debug('Stopping audio capture');
+    const clip = this.emulator.stopAudioCapture();
+    const wav = encodeWav(clip);
+    const info: AudioCaptureInfo = {
+      frames: clip.frames,
+      durationSeconds: clip.samples.length / clip.channels / clip.sampleRate,
+      sampleRate: clip.sampleRate,
+      channels: clip.channels,
+      ...measureLevels(clip),
+      truncated: clip.truncated
+    };
+
+    if (outputPath) {
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+      fs.writeFileSync(outputPath, wav);
+      info.path = outputPath;
+    }
+    log.info(`Captured ${info.durationSeconds.toFixed(2)}s of audio over ${clip.frames} frames`);
+    return { wav, info };
+  }
+
+  async playMovie(moviePath: string): Promise<{ result: MoviePlaybackResult; screen: ScreenContent }> {
+    log.debug(`Playing movie: ${moviePath}`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to play a movie with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+    const result = this.emulator.playMovie(loadMovie(moviePath));
+    log.info(`Played ${result.frames}-frame movie ${moviePath}`);
+    return { result, screen: await this.getScreen() };
+  }
+
+  saveState(name: string): SaveStateInfo {
+    log.debug(`Saving state to slot: ${name}`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to save state with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+    const info = this.emulator.saveState(name);
+    log.info(`Saved state "${name}" for ${path.basename(info.romPath)}`);
+    return info;
+  }
+
+  async loadState(name: string): Promise<ScreenContent> {
+    log.debug(`Loading state from slot: ${name}`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to load state with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+    this.emulator.loadState(name);
+    log.info(`Loaded state "${name}"`);
     return this.getScreen();
   }
 
-  getScreen(): ImageContent {
+  async rewind(frames: number): Promise<{ framesRewound: number; framesAvailable: number; screen: ScreenContent }> {
+    log.debug(`Rewinding ${frames} frames`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to rewind with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+    const framesRewound = this.emulator.rewind(frames);
+    const framesAvailable = this.emulator.getRewindableFrames();
+    log.info(`Rewound ${framesRewound} frames (${framesAvailable} more available)`);
+    return { framesRewound, framesAvailable, screen: await this.getScreen() };
+  }
+
+  listStates(): SaveStateInfo[] {
+    log.verbose('Listing save states');
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to list states with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+    return this.emulator.listStates();
+  }
+
+  deleteState(name: string): boolean {
+    log.debug(`Deleting save state: ${name}`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to delete state with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+    return this.emulator.deleteState(name);
+  }
+
+  /**
+   * Describe the screen as text from the PPU nametables and OAM
+   * @param mode "tiles" for hex tile IDs, "chars" to apply the ROM's tile map
+   * (defaults to "chars" when the ROM has one)
+   */
+  getScreenText(mode?: 'tiles' | 'chars', sprites: boolean = true): string {
+    log.verbose('Getting screen as text');
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to get screen text with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+    const resolvedMode = mode ?? (this.tileMap ? 'chars' : 'tiles');
+    return renderScreenText(this.emulator.getScreenTiles(), { mode: resolvedMode, sprites, tileMap: this.tileMap });
+  }
+
+  /**
+   * List the visible sprites from OAM, optionally grouped into metasprites
+   * @param maxGap Largest gap in pixels between sprites of the same group
+   */
+  getSprites(group: boolean, maxGap: number = 0): { spriteHeight: number; sprites: SpriteInfo[]; groups?: SpriteGroup[] } {
+    log.verbose('Getting sprites');
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to get sprites with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+    const spriteHeight = this.emulator.getSpriteHeight();
+    const sprites = visibleSprites(this.emulator.getOamSprites(), spriteHeight);
+    return group ? { spriteHeight, sprites, groups: groupSprites(sprites, maxGap) } : { spriteHeight, sprites };
+  }
+
+  /**
+   * Render one of the PPU debug views as a PNG
+   * @param palette Palette for the pattern tables: 0-3 background, 4-7 sprites
+   */
+  async renderPpuView(
+    view: 'nametables' | 'pattern_tables' | 'palettes',
+    options: { palette?: number; scale?: number } = {}
+  ): Promise<Buffer> {
+    log.verbose(`Rendering PPU view: ${view}`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to render a PPU view with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+
+    const ppu = this.emulator.getPpuSnapshot();
+    const image = view === 'nametables'
+      ? renderNametables(ppu)
+      : view === 'pattern_tables'
+        ? renderPatternTables(ppu, options.palette ?? 0)
+        : renderPalettes(ppu);
+    return encodePng(image.rgb, image.width, image.height, options.scale);
+  }
+
+  /**
+   * Raw palette RAM ($3F00-$3F1F)
+   */
+  getPaletteRam(): number[] {
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to read palette RAM with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+    return this.emulator.readMemory(MemoryRegion.PALETTE, 0, 0x20);
+  }
+
+  /**
+   * Replace the loaded ROM's tile map (an empty map removes it) and save it for next time
+   * @returns Number of tiles with a character
+   */
+  setTileMap(spec: Record<string, string>): number {
+    log.debug('Setting tile map');
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to set tile map with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+    const tileMap = parseTileMap(spec);
+    const size = Object.keys(tileMap).length;
+    this.tileMap = size > 0 ? tileMap : undefined;
+    saveTileMap(this.emulator.getRomHash()!, this.emulator.getRomPath()!, tileMap);
+    log.info(`Tile map set (${size} tiles)`);
+    return size;
+  }
+
+  /**
+   * Encode the current screen; options not given fall back to the server-wide defaults
+   */
+  async getScreenImage(options?: Partial<ScreenshotOptions>): Promise<{ data: Buffer; mimeType: string }> {
+    log.verbose('Encoding current screen');
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to get screen with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+    return encodeScreenshot(this.emulator.getScreenRgb(), resolveScreenshotOptions(options));
+  }
+
+  async getScreen(options?: Partial<ScreenshotOptions>): Promise<ScreenContent> {
     log.verbose('Getting current screen');
     if (!this.isRomLoaded()) {
       log.warn('Attempted to get screen with no ROM loaded');
       throw new Error('No ROM loaded');
     }
-    const screenBase64 = this.emulator.getScreenAsBase64();
+    if (!resolveScreenshotOptions(options).includeImage) {
+      return { type: 'text', text: JSON.stringify({ frame: this.emulator.getFrameCount() }) };
+    }
+    const { data, mimeType } = await this.getScreenImage(options);
     const screen: ImageContent = {
       type: 'image',
-      data: screenBase64,
-      mimeType: 'image/png'
+      data: data.toString('base64'),
+      mimeType
     };
     return screen;
   }
 
-  advanceFrameAndGetScreen(): ImageContent {
-    log.verbose('Advancing one frame and getting screen');
+  advanceFrame(): void {
+    log.verbose('Advancing one frame');
     if (!this.isRomLoaded()) {
       log.warn('Attempted to advance frame with no ROM loaded');
       throw new Error('No ROM loaded');
     }
     this.emulator.doFrame();
-    return this.getScreen();
   }
+
+  async advanceFrameAndGetScreen(screenshot?: Partial<ScreenshotOptions>): Promise<ScreenContent> {
+    this.advanceFrame();
+    return this.getScreen(screenshot);
+  }
+}
+
+// Steps that only wait have nothing to release
+function releaseFramesOf(step: InputStep): number {
+  return step.release_frames ?? (step.buttons.length > 0 ? DEFAULT_RELEASE_FRAMES : 0);
 }
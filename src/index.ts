@@ -1,5 +1,6 @@
 import { startStdioServer } from './server/stdio';
 import { startSseServer } from './server/sse';
+import { startHttpServer } from './server/http';
 import dotenv from 'dotenv';
 import { log } from './utils/logger';
 
@@ -9,10 +10,14 @@ async function main(): Promise<void> {
   const args = process.argv.slice(2);
   const isStdio = args.includes('--stdio');
   const isSse = args.includes('--sse');
+  const isHttp = args.includes('--http');
 
   const ssePort = process.env.SERVER_PORT ? parseInt(process.env.SERVER_PORT, 10) : 3001;
 
-  if (isSse) {
+  if (isHttp) {
+    log.info(`Starting NES MCP server in Streamable HTTP mode on port ${ssePort}`);
+    await startHttpServer(ssePort);
+  } else if (isSse) {
     log.info(`Starting NES MCP server in SSE mode on port ${ssePort}`);
     await startSseServer(ssePort);
   } else if (isStdio) {
@@ -0,0 +1,39 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { InputStep } from './types';
+import { log } from './utils/logger';
+
+function macroFilePath(): string {
+  return path.join(process.cwd(), 'macros', 'macros.json');
+}
+
+/**
+ * Load the saved input macros by name (empty if none were saved)
+ */
+export function loadMacros(): Map<string, InputStep[]> {
+  const filePath = macroFilePath();
+  if (!fs.existsSync(filePath)) {
+    return new Map();
+  }
+  try {
+    const macros: { name: string; steps: InputStep[] }[] = JSON.parse(fs.readFileSync(filePath, 'utf-8')).macros ?? [];
+    return new Map(macros.map(({ name, steps }) => [name, steps]));
+  } catch (error) {
+    log.error(`Error reading macro file: ${filePath}`, error instanceof Error ? error.message : String(error));
+    return new Map();
+  }
+}
+
+/**
+ * Save the input macros. They aren't tied to a ROM and are shared by every session.
+ */
+export function saveMacros(macros: Map<string, InputStep[]>): void {
+  const filePath = macroFilePath();
+  const macrosDir = path.dirname(filePath);
+  if (!fs.existsSync(macrosDir)) {
+    fs.mkdirSync(macrosDir);
+    log.info('Created macros directory');
+  }
+  const entries = Array.from(macros.entries()).map(([name, steps]) => ({ name, steps }));
+  fs.writeFileSync(filePath, JSON.stringify({ macros: entries }, null, 2));
+}
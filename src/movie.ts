@@ -0,0 +1,144 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { Movie, MovieFrame } from './types';
+
+// FM2 input columns, left to right, map to controller bits 7..0
+const FM2_BUTTONS = 'RLDUTSBA';
+
+// FM2 comment line that carries the final screen hash of movies recorded here
+const FINAL_SCREEN_COMMENT = 'finalScreenHash ';
+
+/**
+ * FCEUX identifies ROMs by the MD5 of the PRG and CHR data (the iNES header is skipped)
+ * @param romData Raw .nes file contents
+ */
+export function fm2RomChecksum(romData: Buffer): string {
+  return `base64:${crypto.createHash('md5').update(romData.subarray(16)).digest('base64')}`;
+}
+
+function parseFm2Buttons(field: string | undefined): number {
+  if (!field) {
+    return 0;
+  }
+  let mask = 0;
+  for (let i = 0; i < FM2_BUTTONS.length; i++) {
+    const c = field[i];
+    if (c !== undefined && c !== '.' && c !== ' ') {
+      mask |= 1 << (7 - i);
+    }
+  }
+  return mask;
+}
+
+function formatFm2Buttons(mask: number): string {
+  return Array.from(FM2_BUTTONS)
+    .map((letter, i) => (mask & (1 << (7 - i)) ? letter : '.'))
+    .join('');
+}
+
+/**
+ * Parse an FCEUX .fm2 movie. Only power-on movies with standard gamepads are supported.
+ * @see https://fceux.com/web/help/fm2.html
+ */
+export function parseFm2(text: string): Movie {
+  const header: Record<string, string> = {};
+  const frames: MovieFrame[] = [];
+  let finalScreenHash: string | undefined;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (line.startsWith('|')) {
+      // |commands|port0|port1|port2|
+      const fields = line.split('|');
+      const command = parseInt(fields[1], 10) || 0;
+      const frame: MovieFrame = [parseFm2Buttons(fields[2]), parseFm2Buttons(fields[3])];
+      if (command) {
+        frame.push(command);
+      }
+      frames.push(frame);
+    } else if (line.trim()) {
+      const space = line.indexOf(' ');
+      const key = space === -1 ? line.trim() : line.slice(0, space);
+      const value = space === -1 ? '' : line.slice(space + 1).trim();
+      if (key === 'comment' && value.startsWith(FINAL_SCREEN_COMMENT)) {
+        finalScreenHash = value.slice(FINAL_SCREEN_COMMENT.length);
+      } else {
+        header[key] = value;
+      }
+    }
+  }
+
+  if (!header.version) {
+    throw new Error('Not an FM2 movie (missing version header)');
+  }
+  if (header.savestate) {
+    throw new Error('FM2 movies that start from an FCEUX savestate are not supported');
+  }
+  if (header.fourscore === '1' || header.port0 === '2' || header.port1 === '2') {
+    throw new Error('Only FM2 movies using standard gamepads are supported');
+  }
+
+  return {
+    romFilename: header.romFilename ?? '',
+    romChecksum: header.romChecksum,
+    frames,
+    rerecordCount: parseInt(header.rerecordCount, 10) || 0,
+    finalScreenHash
+  };
+}
+
+/**
+ * Serialize a power-on movie as an FCEUX .fm2 file
+ */
+export function formatFm2(movie: Movie): string {
+  if (movie.startState) {
+    throw new Error('Only movies recorded from power-on can be exported as FM2');
+  }
+
+  const header = [
+    'version 3',
+    'emuVersion 22020',
+    `rerecordCount ${movie.rerecordCount}`,
+    'palFlag 0',
+    `romFilename ${movie.romFilename}`,
+    `romChecksum ${movie.romChecksum ?? ''}`,
+    `guid ${crypto.randomUUID().toUpperCase()}`,
+    'fourscore 0',
+    'microphone 0',
+    'port0 1',
+    'port1 1',
+    'port2 0',
+    'FDS 0',
+    'NewPPU 0'
+  ];
+  if (movie.finalScreenHash) {
+    header.push(`comment ${FINAL_SCREEN_COMMENT}${movie.finalScreenHash}`);
+  }
+  const lines = movie.frames.map(([p1, p2, command]) =>
+    `|${command ?? 0}|${formatFm2Buttons(p1)}|${formatFm2Buttons(p2)}||`
+  );
+
+  return [...header, ...lines].join('\n') + '\n';
+}
+
+/**
+ * Read a movie file: .fm2 files are FCEUX movies, anything else is this server's JSON format
+ */
+export function loadMovie(filePath: string): Movie {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Movie file not found: ${filePath}`);
+  }
+  const text = fs.readFileSync(filePath, 'utf-8');
+  return path.extname(filePath).toLowerCase() === '.fm2' ? parseFm2(text) : JSON.parse(text);
+}
+
+/**
+ * Write a movie file, choosing the format from the extension like loadMovie
+ */
+export function saveMovie(filePath: string, movie: Movie): void {
+  const text = path.extname(filePath).toLowerCase() === '.fm2'
+    ? formatFm2(movie)
+    : JSON.stringify(movie);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, text);
+}
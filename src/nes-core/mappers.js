@@ -60,7 +60,18 @@ Mappers[0].prototype = {
     // Check address range:
     if (address > 0x4017) {
       // ROM:
-      return this.nes.cpu.mem[address];
+      var value = this.nes.cpu.mem[address];
+      if (this.nes.prgPatches !== null && address >= 0x8000) {
+        // Cheat codes (Game Genie style) patch PRG reads:
+        var patch = this.nes.prgPatches[address];
+        if (
+          patch !== undefined &&
+          (patch.compare === undefined || patch.compare === value)
+        ) {
+          return patch.value;
+        }
+      }
+      return value;
     } else if (address >= 0x2000) {
       // I/O Ports.
       return this.regLoad(address);
@@ -382,6 +393,16 @@ Mappers[0].prototype = {
     }
   },
 
+  // Battery-backed PRG-RAM, as kept in .sav files. Mappers that bank PRG-RAM
+  // override these, since $6000-$7FFF may show another bank or PRG-ROM.
+  getPrgRam: function () {
+    return this.nes.cpu.mem.slice(0x6000, 0x8000);
+  },
+
+  loadPrgRam: function (data, offset) {
+    utils.copyArrayElements(data, 0, this.nes.cpu.mem, 0x6000 + (offset || 0), data.length);
+  },
+
   loadRomBank: function (bank, address) {
     // Loads a ROM bank into the specified address.
     bank %= this.nes.rom.romCount;
@@ -506,7 +527,12 @@ Mappers[0].prototype = {
 
   // eslint-disable-next-line no-unused-vars
   latchAccess: function (address) {
-    // Does nothing. This is used by MMC2.
+    // Does nothing. This is used by MMC2 and MMC4.
+  },
+
+  // eslint-disable-next-line no-unused-vars
+  clockCpuCycles: function (cycles) {
+    // Does nothing. This is used by mappers with CPU cycle IRQ counters.
   },
 
   toJSON: function () {
@@ -1106,76 +1132,116 @@ Mappers[4].prototype.fromJSON = function (s) {
 /**
  * Mapper005 (MMC5,ExROM)
  *
+ * Expansion audio, split screen and ExRAM extended attributes aren't
+ * emulated. The PPU doesn't tell sprite fetches from background fetches, so
+ * in 8x16 sprite mode the CHR set written last is used for both.
+ *
  * @example Castlevania 3, Just Breed, Uncharted Waters, Romance of the 3 Kingdoms 2, Laser Invasion, Metal Slader Glory, Uchuu Keibitai SDF, Shin 4 Nin Uchi Mahjong - Yakuman Tengoku
  * @description http://wiki.nesdev.com/w/index.php/INES_Mapper_005
  * @constructor
  */
 Mappers[5] = function (nes) {
   this.nes = nes;
+
+  this.prgMode = 3;
+  this.chrMode = 0;
+  this.prgRamProtect1 = 0;
+  this.prgRamProtect2 = 0;
+  this.exRamMode = 0;
+  this.nametableMapping = 0;
+  this.fillTile = 0;
+  this.fillAttrib = 0;
+
+  // $5113-$5117. Power-up maps the last PRG-ROM bank everywhere:
+  this.prgRegs = [0, 0xff, 0xff, 0xff, 0xff];
+
+  // RAM bank shown in each 8KB CPU slot from $6000 (-1 for ROM):
+  this.ramSlots = [0, -1, -1, -1, -1];
+
+  // $5120-$512B, with the upper bits from $5130 applied:
+  this.chrRegs = [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
+  this.chrUpperBits = 0;
+  this.lastChrSetB = false;
+
+  this.irqCompare = 0;
+  this.irqEnabled = false;
+  this.irqPending = false;
+  this.inFrame = false;
+  this.scanlineCounter = 0;
+
+  this.multiplicand = 0xff;
+  this.multiplier = 0xff;
+
+  this.exRam = new Array(0x400);
+  this.prgRam = new Array(0x10000);
+  for (var i = 0; i < this.exRam.length; i++) {
+    this.exRam[i] = 0;
+  }
+  for (i = 0; i < this.prgRam.length; i++) {
+    this.prgRam[i] = 0;
+  }
 };
 
 Mappers[5].prototype = new Mappers[0]();
 
 Mappers[5].prototype.write = function (address, value) {
+  if (address >= 0x6000 && address < 0xe000) {
+    this.writePrgRam(address, value);
+    return;
+  }
   // Writes to addresses other than MMC registers are handled by NoMapper.
-  if (address < 0x8000) {
+  if (address < 0x5100 || address >= 0x6000) {
     Mappers[0].prototype.write.apply(this, arguments);
-  } else {
-    this.load8kVromBank(value, 0x0000);
+    return;
   }
-};
 
-Mappers[5].prototype.write = function (address, value) {
-  // Writes to addresses other than MMC registers are handled by NoMapper.
-  if (address < 0x5000) {
-    Mappers[0].prototype.write.apply(this, arguments);
+  if (address >= 0x5c00) {
+    this.writeExRam(address - 0x5c00, value);
     return;
   }
 
   switch (address) {
     case 0x5100:
-      this.prg_size = value & 3;
+      this.prgMode = value & 3;
+      this.updatePrgBanks();
       break;
     case 0x5101:
-      this.chr_size = value & 3;
+      this.chrMode = value & 3;
+      this.updateChrBanks();
       break;
     case 0x5102:
-      this.sram_we_a = value & 3;
+      this.prgRamProtect1 = value & 3;
       break;
     case 0x5103:
-      this.sram_we_b = value & 3;
+      this.prgRamProtect2 = value & 3;
       break;
     case 0x5104:
-      this.graphic_mode = value & 3;
+      this.exRamMode = value & 3;
       break;
     case 0x5105:
-      this.nametable_mode = value;
-      this.nametable_type[0] = value & 3;
-      this.load1kVromBank(value & 3, 0x2000);
-      value >>= 2;
-      this.nametable_type[1] = value & 3;
-      this.load1kVromBank(value & 3, 0x2400);
-      value >>= 2;
-      this.nametable_type[2] = value & 3;
-      this.load1kVromBank(value & 3, 0x2800);
-      value >>= 2;
-      this.nametable_type[3] = value & 3;
-      this.load1kVromBank(value & 3, 0x2c00);
+      this.nametableMapping = value;
+      this.nes.ppu.setNametablePages([
+        value & 3,
+        (value >> 2) & 3,
+        (value >> 4) & 3,
+        (value >> 6) & 3,
+      ]);
       break;
     case 0x5106:
-      this.fill_chr = value;
+      this.fillTile = value;
+      this.updateFillNametable();
       break;
     case 0x5107:
-      this.fill_pal = value & 3;
+      this.fillAttrib = value & 3;
+      this.updateFillNametable();
       break;
     case 0x5113:
-      this.SetBank_SRAM(3, value & 3);
-      break;
     case 0x5114:
     case 0x5115:
     case 0x5116:
     case 0x5117:
-      this.SetBank_CPU(address, value);
+      this.prgRegs[address - 0x5113] = value;
+      this.updatePrgBanks();
       break;
     case 0x5120:
     case 0x5121:
@@ -1185,84 +1251,306 @@ Mappers[5].prototype.write = function (address, value) {
     case 0x5125:
     case 0x5126:
     case 0x5127:
-      this.chr_mode = 0;
-      this.chr_page[0][address & 7] = value;
-      this.SetBank_PPU();
-      break;
     case 0x5128:
     case 0x5129:
     case 0x512a:
     case 0x512b:
-      this.chr_mode = 1;
-      this.chr_page[1][(address & 3) + 0] = value;
-      this.chr_page[1][(address & 3) + 4] = value;
-      this.SetBank_PPU();
+      this.chrRegs[address - 0x5120] = value | (this.chrUpperBits << 8);
+      this.lastChrSetB = address >= 0x5128;
+      this.updateChrBanks();
       break;
-    case 0x5200:
-      this.split_control = value;
-      break;
-    case 0x5201:
-      this.split_scroll = value;
-      break;
-    case 0x5202:
-      this.split_page = value & 0x3f;
+    case 0x5130:
+      this.chrUpperBits = value & 3;
       break;
     case 0x5203:
-      this.irq_line = value;
-      this.nes.cpu.ClearIRQ();
+      this.irqCompare = value;
       break;
     case 0x5204:
-      this.irq_enable = value;
-      this.nes.cpu.ClearIRQ();
+      this.irqEnabled = (value & 0x80) !== 0;
       break;
     case 0x5205:
-      this.mult_a = value;
+      this.multiplicand = value;
       break;
     case 0x5206:
-      this.mult_b = value;
+      this.multiplier = value;
       break;
     default:
-      if (address >= 0x5000 && address <= 0x5015) {
-        this.nes.papu.exWrite(address, value);
-      } else if (address >= 0x5c00 && address <= 0x5fff) {
-        if (this.graphic_mode === 2) {
-          // ExRAM
-          // vram write
-        } else if (this.graphic_mode !== 3) {
-          // Split,ExGraphic
-          if (this.irq_status & 0x40) {
-            // vram write
-          } else {
-            // vram write
-          }
-        }
-      } else if (address >= 0x6000 && address <= 0x7fff) {
-        if (this.sram_we_a === 2 && this.sram_we_b === 1) {
-          // additional ram write
-        }
+    // Expansion audio and split screen registers: not emulated.
+  }
+};
+
+Mappers[5].prototype.load = function (address) {
+  address &= 0xffff;
+
+  switch (address) {
+    case 0x5204:
+      // IRQ status. Reading it acknowledges the IRQ:
+      var status =
+        (this.irqPending ? 0x80 : 0) | (this.isInFrame() ? 0x40 : 0);
+      this.irqPending = false;
+      return status;
+    case 0x5205:
+      return (this.multiplicand * this.multiplier) & 0xff;
+    case 0x5206:
+      return ((this.multiplicand * this.multiplier) >> 8) & 0xff;
+    default:
+      if (address >= 0x5c00 && address < 0x6000) {
+        return this.exRam[address - 0x5c00];
+      }
+      return Mappers[0].prototype.load.apply(this, arguments);
+  }
+};
+
+Mappers[5].prototype.writePrgRam = function (address, value) {
+  var slot = (address - 0x6000) >> 13;
+  var bank = this.ramSlots[slot];
+  if (bank < 0 || this.prgRamProtect1 !== 2 || this.prgRamProtect2 !== 1) {
+    return;
+  }
+
+  var offset = address & 0x1fff;
+  this.prgRam[(bank << 13) | offset] = value;
+
+  // The same RAM bank may be visible in more than one slot:
+  for (var i = 0; i < this.ramSlots.length; i++) {
+    if (this.ramSlots[i] === bank) {
+      this.nes.cpu.mem[0x6000 + (i << 13) + offset] = value;
+    }
+  }
+  if (slot === 0) {
+    this.nes.opts.onBatteryRamWrite(address, value);
+  }
+};
+
+Mappers[5].prototype.writeExRam = function (offset, value) {
+  if (this.exRamMode === 3) {
+    // Read-only.
+    return;
+  }
+  this.exRam[offset] = value;
+
+  // Nametable page 2 shows ExRAM:
+  var ppu = this.nes.ppu;
+  ppu.triggerRendering();
+  if (offset < 0x3c0) {
+    ppu.nameTable[2].tile[offset] = value;
+  } else {
+    ppu.nameTable[2].writeAttrib(offset - 0x3c0, value);
+  }
+};
+
+// The battery-backed RAM is PRG-RAM bank 0, wherever it is mapped.
+Mappers[5].prototype.getPrgRam = function () {
+  return this.prgRam.slice(0, 0x2000);
+};
+
+Mappers[5].prototype.loadPrgRam = function (data, offset) {
+  offset = offset || 0;
+  utils.copyArrayElements(data, 0, this.prgRam, offset, data.length);
+  for (var slot = 0; slot < this.ramSlots.length; slot++) {
+    if (this.ramSlots[slot] === 0) {
+      utils.copyArrayElements(
+        data,
+        0,
+        this.nes.cpu.mem,
+        0x6000 + (slot << 13) + offset,
+        data.length,
+      );
+    }
+  }
+};
+
+// Nametable page 3 is the fill-mode nametable.
+Mappers[5].prototype.updateFillNametable = function () {
+  var nameTable = this.nes.ppu.nameTable[3];
+  var i;
+
+  this.nes.ppu.triggerRendering();
+  for (i = 0; i < 0x3c0; i++) {
+    nameTable.tile[i] = this.fillTile;
+  }
+  for (i = 0; i < 0x40; i++) {
+    nameTable.writeAttrib(i, this.fillAttrib * 0x55);
+  }
+};
+
+// Maps an 8KB PRG-ROM or PRG-RAM bank into one of the CPU slots
+// $6000, $8000, $A000, $C000 and $E000.
+Mappers[5].prototype.mapPrgBank = function (slot, value, rom) {
+  var address = 0x6000 + (slot << 13);
+  if (rom) {
+    this.ramSlots[slot] = -1;
+    this.load8kRomBank(value & 0x7f, address);
+  } else {
+    var bank = value & 7;
+    this.ramSlots[slot] = bank;
+    utils.copyArrayElements(
+      this.prgRam,
+      bank << 13,
+      this.nes.cpu.mem,
+      address,
+      0x2000,
+    );
+  }
+};
+
+Mappers[5].prototype.updatePrgBanks = function () {
+  var regs = this.prgRegs;
+
+  // $6000 is always RAM and $E000 always ROM. Bit 7 selects ROM elsewhere.
+  this.mapPrgBank(0, regs[0], false);
+  switch (this.prgMode) {
+    case 0:
+      // One 32KB bank:
+      for (var i = 0; i < 4; i++) {
+        this.mapPrgBank(i + 1, (regs[4] & 0x7c) | i, true);
       }
       break;
+    case 1:
+      // Two 16KB banks:
+      this.mapPrgBank(1, regs[2] & 0xfe, (regs[2] & 0x80) !== 0);
+      this.mapPrgBank(2, regs[2] | 1, (regs[2] & 0x80) !== 0);
+      this.mapPrgBank(3, regs[4] & 0xfe, true);
+      this.mapPrgBank(4, regs[4] | 1, true);
+      break;
+    case 2:
+      // One 16KB bank and two 8KB banks:
+      this.mapPrgBank(1, regs[2] & 0xfe, (regs[2] & 0x80) !== 0);
+      this.mapPrgBank(2, regs[2] | 1, (regs[2] & 0x80) !== 0);
+      this.mapPrgBank(3, regs[3], (regs[3] & 0x80) !== 0);
+      this.mapPrgBank(4, regs[4], true);
+      break;
+    default:
+      // Four 8KB banks:
+      this.mapPrgBank(1, regs[1], (regs[1] & 0x80) !== 0);
+      this.mapPrgBank(2, regs[2], (regs[2] & 0x80) !== 0);
+      this.mapPrgBank(3, regs[3], (regs[3] & 0x80) !== 0);
+      this.mapPrgBank(4, regs[4], true);
+  }
+};
+
+Mappers[5].prototype.updateChrBanks = function () {
+  // Bank size in 1KB units for CHR modes 0-3:
+  var size = 8 >> this.chrMode;
+
+  for (var slot = 0; slot < 8; slot++) {
+    var bank;
+    if (this.lastChrSetB && this.nes.ppu.f_spriteSize === 1) {
+      // Set B ($5128-$512B) covers 4KB, repeated in both pattern tables:
+      var t = slot & 3;
+      var reg = this.chrRegs[8 + (t | (Math.min(size, 4) - 1))];
+      bank = reg * size + (t & (size - 1));
+    } else {
+      // Set A ($5120-$5127):
+      bank =
+        this.chrRegs[slot | (size - 1)] * size + (slot & (size - 1));
+    }
+    this.load1kVromBank(bank, slot << 10);
+  }
+};
+
+Mappers[5].prototype.isInFrame = function () {
+  var scanline = this.nes.ppu.scanline;
+  return this.inFrame && scanline >= 21 && scanline <= 260;
+};
+
+Mappers[5].prototype.clockIrqCounter = function () {
+  // Called at the end of the pre-render line and of each visible line, i.e.
+  // when the next line starts.
+  var scanline = this.nes.ppu.scanline;
+  if (scanline === 20 || !this.inFrame) {
+    this.inFrame = true;
+    this.scanlineCounter = 0;
+  } else if (scanline === 260) {
+    this.inFrame = false;
+  } else {
+    this.scanlineCounter++;
+    if (this.scanlineCounter === this.irqCompare) {
+      this.irqPending = true;
+    }
+  }
+};
+
+// eslint-disable-next-line no-unused-vars
+Mappers[5].prototype.clockCpuCycles = function (cycles) {
+  // The IRQ line stays asserted until acknowledged:
+  if (this.irqPending && this.irqEnabled) {
+    this.nes.cpu.requestIrq(this.nes.cpu.IRQ_NORMAL);
   }
 };
 
 Mappers[5].prototype.loadROM = function () {
   if (!this.nes.rom.valid) {
-    throw new Error("UNROM: Invalid ROM! Unable to load.");
+    throw new Error("MMC5: Invalid ROM! Unable to load.");
   }
 
-  // Load PRG-ROM:
-  this.load8kRomBank(this.nes.rom.romCount * 2 - 1, 0x8000);
-  this.load8kRomBank(this.nes.rom.romCount * 2 - 1, 0xa000);
-  this.load8kRomBank(this.nes.rom.romCount * 2 - 1, 0xc000);
-  this.load8kRomBank(this.nes.rom.romCount * 2 - 1, 0xe000);
+  // Load PRG-ROM and PRG-RAM:
+  this.updatePrgBanks();
 
   // Load CHR-ROM:
-  this.loadCHRROM();
+  this.updateChrBanks();
+
+  // Load Battery RAM (if present) into the first PRG-RAM bank:
+  this.loadBatteryRam();
+  utils.copyArrayElements(this.nes.cpu.mem, 0x6000, this.prgRam, 0, 0x2000);
 
   // Do Reset-Interrupt:
   this.nes.cpu.requestIrq(this.nes.cpu.IRQ_RESET);
 };
 
+Mappers[5].prototype.toJSON = function () {
+  var s = Mappers[0].prototype.toJSON.apply(this);
+  s.prgMode = this.prgMode;
+  s.chrMode = this.chrMode;
+  s.prgRamProtect1 = this.prgRamProtect1;
+  s.prgRamProtect2 = this.prgRamProtect2;
+  s.exRamMode = this.exRamMode;
+  s.nametableMapping = this.nametableMapping;
+  s.fillTile = this.fillTile;
+  s.fillAttrib = this.fillAttrib;
+  s.prgRegs = this.prgRegs;
+  s.ramSlots = this.ramSlots;
+  s.chrRegs = this.chrRegs;
+  s.chrUpperBits = this.chrUpperBits;
+  s.lastChrSetB = this.lastChrSetB;
+  s.irqCompare = this.irqCompare;
+  s.irqEnabled = this.irqEnabled;
+  s.irqPending = this.irqPending;
+  s.inFrame = this.inFrame;
+  s.scanlineCounter = this.scanlineCounter;
+  s.multiplicand = this.multiplicand;
+  s.multiplier = this.multiplier;
+  s.exRam = this.exRam;
+  s.prgRam = this.prgRam;
+  return s;
+};
+
+Mappers[5].prototype.fromJSON = function (s) {
+  Mappers[0].prototype.fromJSON.apply(this, arguments);
+  this.prgMode = s.prgMode;
+  this.chrMode = s.chrMode;
+  this.prgRamProtect1 = s.prgRamProtect1;
+  this.prgRamProtect2 = s.prgRamProtect2;
+  this.exRamMode = s.exRamMode;
+  this.nametableMapping = s.nametableMapping;
+  this.fillTile = s.fillTile;
+  this.fillAttrib = s.fillAttrib;
+  this.prgRegs = s.prgRegs.slice(0);
+  this.ramSlots = s.ramSlots.slice(0);
+  this.chrRegs = s.chrRegs.slice(0);
+  this.chrUpperBits = s.chrUpperBits;
+  this.lastChrSetB = s.lastChrSetB;
+  this.irqCompare = s.irqCompare;
+  this.irqEnabled = s.irqEnabled;
+  this.irqPending = s.irqPending;
+  this.inFrame = s.inFrame;
+  this.scanlineCounter = s.scanlineCounter;
+  this.multiplicand = s.multiplicand;
+  this.multiplier = s.multiplier;
+  this.exRam = s.exRam.slice(0);
+  this.prgRam = s.prgRam.slice(0);
+};
+
 /**
  * Mapper007 (AxROM)
  * @example Battletoads, Time Lord, Marble Madness
@@ -1304,6 +1592,165 @@ Mappers[7].prototype.loadROM = function () {
   this.nes.cpu.requestIrq(this.nes.cpu.IRQ_RESET);
 };
 
+/**
+ * Mapper 009 (MMC2, PxROM)
+ *
+ * @description http://wiki.nesdev.com/w/index.php/MMC2
+ * @example Mike Tyson's Punch-Out!!, Punch-Out!!
+ * @constructor
+ */
+Mappers[9] = function (nes) {
+  this.nes = nes;
+
+  // 4KB CHR banks: $0000 for latch FD/FE, then $1000 for latch FD/FE.
+  this.chrBanks = [0, 0, 0, 0];
+  this.latch0 = 0xfe;
+  this.latch1 = 0xfe;
+};
+
+Mappers[9].prototype = new Mappers[0]();
+
+Mappers[9].prototype.write = function (address, value) {
+  // Writes to addresses other than MMC registers are handled by NoMapper.
+  if (address < 0x8000) {
+    Mappers[0].prototype.write.apply(this, arguments);
+    return;
+  }
+
+  switch (address & 0xf000) {
+    case 0xa000:
+      // Select the 8KB PRG-ROM bank at 0x8000:
+      this.load8kRomBank(value & 0xf, 0x8000);
+      break;
+    case 0xb000:
+    case 0xc000:
+    case 0xd000:
+    case 0xe000:
+      this.chrBanks[(address >> 12) - 0xb] = value & 0x1f;
+      this.updateChrBank(address < 0xd000 ? 0x0000 : 0x1000);
+      break;
+    case 0xf000:
+      if ((value & 1) !== 0) {
+        this.nes.ppu.setMirroring(this.nes.rom.HORIZONTAL_MIRRORING);
+      } else {
+        this.nes.ppu.setMirroring(this.nes.rom.VERTICAL_MIRRORING);
+      }
+      break;
+    default:
+    // Not a register.
+  }
+};
+
+// Loads the CHR bank the latch selects for the pattern table at `address`.
+Mappers[9].prototype.updateChrBank = function (address) {
+  if (address === 0x0000) {
+    this.loadVromBank(this.chrBanks[this.latch0 === 0xfd ? 0 : 1], 0x0000);
+  } else {
+    this.loadVromBank(this.chrBanks[this.latch1 === 0xfd ? 2 : 3], 0x1000);
+  }
+};
+
+// The PPU reading the last row of tile $FD or $FE flips the latch of that
+// pattern table, which switches its CHR bank.
+Mappers[9].prototype.latchAccess = function (address) {
+  var row = address & 0x0ff8;
+  if (row !== 0x0fd8 && row !== 0x0fe8) {
+    return;
+  }
+  var value = row === 0x0fd8 ? 0xfd : 0xfe;
+
+  if (address < 0x1000) {
+    if (this.latch0 !== value) {
+      this.latch0 = value;
+      this.updateChrBank(0x0000);
+    }
+  } else if (this.latch1 !== value) {
+    this.latch1 = value;
+    this.updateChrBank(0x1000);
+  }
+};
+
+Mappers[9].prototype.loadROM = function () {
+  if (!this.nes.rom.valid) {
+    throw new Error("MMC2: Invalid ROM! Unable to load.");
+  }
+
+  // Load PRG-ROM. The last three 8KB banks are fixed:
+  this.load8kRomBank(0, 0x8000);
+  this.load8kRomBank(this.nes.rom.romCount * 2 - 3, 0xa000);
+  this.load8kRomBank(this.nes.rom.romCount * 2 - 2, 0xc000);
+  this.load8kRomBank(this.nes.rom.romCount * 2 - 1, 0xe000);
+
+  // Load CHR-ROM:
+  this.updateChrBank(0x0000);
+  this.updateChrBank(0x1000);
+
+  // Load Battery RAM (if present):
+  this.loadBatteryRam();
+
+  // Do Reset-Interrupt:
+  this.nes.cpu.requestIrq(this.nes.cpu.IRQ_RESET);
+};
+
+Mappers[9].prototype.toJSON = function () {
+  var s = Mappers[0].prototype.toJSON.apply(this);
+  s.chrBanks = this.chrBanks;
+  s.latch0 = this.latch0;
+  s.latch1 = this.latch1;
+  return s;
+};
+
+Mappers[9].prototype.fromJSON = function (s) {
+  Mappers[0].prototype.fromJSON.apply(this, arguments);
+  this.chrBanks = s.chrBanks.slice(0);
+  this.latch0 = s.latch0;
+  this.latch1 = s.latch1;
+};
+
+/**
+ * Mapper 010 (MMC4, FxROM)
+ *
+ * Works like MMC2, with a 16KB switchable PRG-ROM bank.
+ *
+ * @description http://wiki.nesdev.com/w/index.php/MMC4
+ * @example Fire Emblem, Famicom Wars
+ * @constructor
+ */
+Mappers[10] = function (nes) {
+  Mappers[9].call(this, nes);
+};
+
+Mappers[10].prototype = new Mappers[9]();
+
+Mappers[10].prototype.write = function (address, value) {
+  if ((address & 0xf000) === 0xa000) {
+    // Select the 16KB PRG-ROM bank at 0x8000:
+    this.loadRomBank(value & 0xf, 0x8000);
+    return;
+  }
+  Mappers[9].prototype.write.apply(this, arguments);
+};
+
+Mappers[10].prototype.loadROM = function () {
+  if (!this.nes.rom.valid) {
+    throw new Error("MMC4: Invalid ROM! Unable to load.");
+  }
+
+  // Load PRG-ROM. The last 16KB bank is fixed:
+  this.loadRomBank(0, 0x8000);
+  this.loadRomBank(this.nes.rom.romCount - 1, 0xc000);
+
+  // Load CHR-ROM:
+  this.updateChrBank(0x0000);
+  this.updateChrBank(0x1000);
+
+  // Load Battery RAM (if present):
+  this.loadBatteryRam();
+
+  // Do Reset-Interrupt:
+  this.nes.cpu.requestIrq(this.nes.cpu.IRQ_RESET);
+};
+
 /**
  * Mapper 011 (Color Dreams)
  *
@@ -1338,6 +1785,345 @@ Mappers[11].prototype.write = function (address, value) {
   }
 };
 
+/**
+ * Mapper 019 (Namco 129/163)
+ *
+ * Expansion audio isn't emulated, but the 128 bytes of internal RAM it shares
+ * with games are. CHR-ROM can't be used as nametables; those selections fall
+ * back to CIRAM.
+ *
+ * @description http://wiki.nesdev.com/w/index.php/INES_Mapper_019
+ * @example Digital Devil Story: Megami Tensei II, Dragon Ninja, Famista '90, King of Kings, Rolling Thunder
+ * @constructor
+ */
+Mappers[19] = function (nes) {
+  this.nes = nes;
+
+  this.internalRam = new Array(128);
+  for (var i = 0; i < this.internalRam.length; i++) {
+    this.internalRam[i] = 0;
+  }
+  this.ramAddress = 0;
+  this.ramAutoIncrement = false;
+
+  this.nametableBanks = [0, 0, 0, 0];
+
+  // 15-bit IRQ counter, counting up every CPU cycle:
+  this.irqCounter = 0;
+  this.irqEnabled = false;
+  this.irqPending = false;
+};
+
+Mappers[19].prototype = new Mappers[0]();
+
+Mappers[19].prototype.write = function (address, value) {
+  if (address >= 0x4800 && address < 0x6000) {
+    this.writeLowRegister(address, value);
+    return;
+  }
+  // Writes to addresses other than MMC registers are handled by NoMapper.
+  if (address < 0x8000) {
+    Mappers[0].prototype.write.apply(this, arguments);
+    return;
+  }
+
+  var reg = address & 0xf800;
+  if (reg < 0xc000) {
+    // 1KB CHR-ROM banks, $8000-$B800:
+    this.load1kVromBank(value, (reg - 0x8000) >> 1);
+  } else if (reg < 0xe000) {
+    // Nametables, $C000-$D800. Values $E0 and up select CIRAM:
+    this.nametableBanks[(reg - 0xc000) >> 11] = value & 1;
+    this.nes.ppu.setNametablePages(this.nametableBanks);
+  } else {
+    switch (reg) {
+      case 0xe000:
+        this.load8kRomBank(value & 0x3f, 0x8000);
+        break;
+      case 0xe800:
+        this.load8kRomBank(value & 0x3f, 0xa000);
+        break;
+      case 0xf000:
+        this.load8kRomBank(value & 0x3f, 0xc000);
+        break;
+      default:
+        // $F800: internal RAM address port (also PRG-RAM write protection,
+        // which isn't emulated):
+        this.ramAddress = value & 0x7f;
+        this.ramAutoIncrement = (value & 0x80) !== 0;
+    }
+  }
+};
+
+Mappers[19].prototype.writeLowRegister = function (address, value) {
+  switch (address & 0xf800) {
+    case 0x4800:
+      this.internalRam[this.ramAddress] = value;
+      this.stepRamAddress();
+      break;
+    case 0x5000:
+      this.irqCounter = (this.irqCounter & 0x7f00) | value;
+      this.irqPending = false;
+      break;
+    default:
+      // $5800:
+      this.irqCounter = (this.irqCounter & 0xff) | ((value & 0x7f) << 8);
+      this.irqEnabled = (value & 0x80) !== 0;
+      this.irqPending = false;
+  }
+};
+
+Mappers[19].prototype.load = function (address) {
+  address &= 0xffff;
+  if (address < 0x4800 || address >= 0x6000) {
+    return Mappers[0].prototype.load.apply(this, arguments);
+  }
+
+  switch (address & 0xf800) {
+    case 0x4800:
+      var value = this.internalRam[this.ramAddress];
+      this.stepRamAddress();
+      return value;
+    case 0x5000:
+      return this.irqCounter & 0xff;
+    default:
+      // $5800:
+      return (this.irqCounter >> 8) | (this.irqEnabled ? 0x80 : 0);
+  }
+};
+
+Mappers[19].prototype.stepRamAddress = function () {
+  if (this.ramAutoIncrement) {
+    this.ramAddress = (this.ramAddress + 1) & 0x7f;
+  }
+};
+
+Mappers[19].prototype.clockCpuCycles = function (cycles) {
+  if (this.irqEnabled && this.irqCounter < 0x7fff) {
+    // The counter stops once it reaches $7FFF:
+    this.irqCounter = Math.min(this.irqCounter + cycles, 0x7fff);
+    if (this.irqCounter === 0x7fff) {
+      this.irqPending = true;
+    }
+  }
+  // The IRQ line stays asserted until acknowledged:
+  if (this.irqPending) {
+    this.nes.cpu.requestIrq(this.nes.cpu.IRQ_NORMAL);
+  }
+};
+
+Mappers[19].prototype.loadROM = function () {
+  if (!this.nes.rom.valid) {
+    throw new Error("Namco 163: Invalid ROM! Unable to load.");
+  }
+
+  // Load PRG-ROM. The last 8KB bank is fixed:
+  this.load8kRomBank(0, 0x8000);
+  this.load8kRomBank(1, 0xa000);
+  this.load8kRomBank(this.nes.rom.romCount * 2 - 2, 0xc000);
+  this.load8kRomBank(this.nes.rom.romCount * 2 - 1, 0xe000);
+
+  // Load CHR-ROM:
+  this.loadCHRROM();
+
+  // Load Battery RAM (if present):
+  this.loadBatteryRam();
+
+  // Do Reset-Interrupt:
+  this.nes.cpu.requestIrq(this.nes.cpu.IRQ_RESET);
+};
+
+Mappers[19].prototype.toJSON = function () {
+  var s = Mappers[0].prototype.toJSON.apply(this);
+  s.internalRam = this.internalRam;
+  s.ramAddress = this.ramAddress;
+  s.ramAutoIncrement = this.ramAutoIncrement;
+  s.nametableBanks = this.nametableBanks;
+  s.irqCounter = this.irqCounter;
+  s.irqEnabled = this.irqEnabled;
+  s.irqPending = this.irqPending;
+  return s;
+};
+
+Mappers[19].prototype.fromJSON = function (s) {
+  Mappers[0].prototype.fromJSON.apply(this, arguments);
+  this.internalRam = s.internalRam.slice(0);
+  this.ramAddress = s.ramAddress;
+  this.ramAutoIncrement = s.ramAutoIncrement;
+  this.nametableBanks = s.nametableBanks.slice(0);
+  this.irqCounter = s.irqCounter;
+  this.irqEnabled = s.irqEnabled;
+  this.irqPending = s.irqPending;
+};
+
+/**
+ * Mapper 024 (Konami VRC6a)
+ *
+ * Expansion audio isn't emulated.
+ *
+ * @description http://wiki.nesdev.com/w/index.php/VRC6
+ * @example Akumajou Densetsu (Castlevania III)
+ * @constructor
+ */
+Mappers[24] = function (nes) {
+  this.nes = nes;
+
+  this.irqLatch = 0;
+  this.irqCounter = 0;
+  this.irqPrescaler = 341;
+  this.irqEnabled = false;
+  this.irqEnableAfterAck = false;
+  this.irqCycleMode = false;
+  this.irqPending = false;
+};
+
+Mappers[24].prototype = new Mappers[0]();
+
+Mappers[24].prototype.write = function (address, value) {
+  // Writes to addresses other than MMC registers are handled by NoMapper.
+  if (address < 0x8000) {
+    Mappers[0].prototype.write.apply(this, arguments);
+    return;
+  }
+
+  switch (address & 0xf003) {
+    case 0x8000:
+    case 0x8001:
+    case 0x8002:
+    case 0x8003:
+      // Select the 16KB PRG-ROM bank at 0x8000:
+      this.loadRomBank(value & 0xf, 0x8000);
+      break;
+    case 0xb003:
+      switch ((value >> 2) & 3) {
+        case 0:
+          this.nes.ppu.setMirroring(this.nes.rom.VERTICAL_MIRRORING);
+          break;
+        case 1:
+          this.nes.ppu.setMirroring(this.nes.rom.HORIZONTAL_MIRRORING);
+          break;
+        case 2:
+          this.nes.ppu.setMirroring(this.nes.rom.SINGLESCREEN_MIRRORING);
+          break;
+        default:
+          this.nes.ppu.setMirroring(this.nes.rom.SINGLESCREEN_MIRRORING2);
+      }
+      break;
+    case 0xc000:
+    case 0xc001:
+    case 0xc002:
+    case 0xc003:
+      // Select the 8KB PRG-ROM bank at 0xC000:
+      this.load8kRomBank(value & 0x1f, 0xc000);
+      break;
+    case 0xd000:
+    case 0xd001:
+    case 0xd002:
+    case 0xd003:
+      this.load1kVromBank(value, (address & 3) << 10);
+      break;
+    case 0xe000:
+    case 0xe001:
+    case 0xe002:
+    case 0xe003:
+      this.load1kVromBank(value, 0x1000 | ((address & 3) << 10));
+      break;
+    case 0xf000:
+      this.irqLatch = value;
+      break;
+    case 0xf001:
+      this.irqEnableAfterAck = (value & 1) !== 0;
+      this.irqEnabled = (value & 2) !== 0;
+      this.irqCycleMode = (value & 4) !== 0;
+      this.irqPending = false;
+      if (this.irqEnabled) {
+        this.irqCounter = this.irqLatch;
+        this.irqPrescaler = 341;
+      }
+      break;
+    case 0xf002:
+      this.irqPending = false;
+      this.irqEnabled = this.irqEnableAfterAck;
+      break;
+    default:
+    // Expansion audio registers: not emulated.
+  }
+};
+
+// Clocks the VRC IRQ counter, which counts up and reloads after $FF.
+Mappers[24].prototype.clockIrqCounterVrc = function () {
+  if (this.irqCounter === 0xff) {
+    this.irqCounter = this.irqLatch;
+    this.irqPending = true;
+  } else {
+    this.irqCounter++;
+  }
+};
+
+Mappers[24].prototype.clockCpuCycles = function (cycles) {
+  if (this.irqEnabled) {
+    if (this.irqCycleMode) {
+      for (var i = 0; i < cycles; i++) {
+        this.clockIrqCounterVrc();
+      }
+    } else {
+      // Scanline mode: the prescaler counts 341 PPU dots, 3 per CPU cycle.
+      this.irqPrescaler -= cycles * 3;
+      while (this.irqPrescaler <= 0) {
+        this.irqPrescaler += 341;
+        this.clockIrqCounterVrc();
+      }
+    }
+  }
+  // The IRQ line stays asserted until acknowledged:
+  if (this.irqPending) {
+    this.nes.cpu.requestIrq(this.nes.cpu.IRQ_NORMAL);
+  }
+};
+
+Mappers[24].prototype.loadROM = function () {
+  if (!this.nes.rom.valid) {
+    throw new Error("VRC6: Invalid ROM! Unable to load.");
+  }
+
+  // Load PRG-ROM. The last 8KB bank is fixed:
+  this.loadRomBank(0, 0x8000);
+  this.load8kRomBank(this.nes.rom.romCount * 2 - 2, 0xc000);
+  this.load8kRomBank(this.nes.rom.romCount * 2 - 1, 0xe000);
+
+  // Load CHR-ROM:
+  this.loadCHRROM();
+
+  // Load Battery RAM (if present):
+  this.loadBatteryRam();
+
+  // Do Reset-Interrupt:
+  this.nes.cpu.requestIrq(this.nes.cpu.IRQ_RESET);
+};
+
+Mappers[24].prototype.toJSON = function () {
+  var s = Mappers[0].prototype.toJSON.apply(this);
+  s.irqLatch = this.irqLatch;
+  s.irqCounter = this.irqCounter;
+  s.irqPrescaler = this.irqPrescaler;
+  s.irqEnabled = this.irqEnabled;
+  s.irqEnableAfterAck = this.irqEnableAfterAck;
+  s.irqCycleMode = this.irqCycleMode;
+  s.irqPending = this.irqPending;
+  return s;
+};
+
+Mappers[24].prototype.fromJSON = function (s) {
+  Mappers[0].prototype.fromJSON.apply(this, arguments);
+  this.irqLatch = s.irqLatch;
+  this.irqCounter = s.irqCounter;
+  this.irqPrescaler = s.irqPrescaler;
+  this.irqEnabled = s.irqEnabled;
+  this.irqEnableAfterAck = s.irqEnableAfterAck;
+  this.irqCycleMode = s.irqCycleMode;
+  this.irqPending = s.irqPending;
+};
+
 /**
  * Mapper 034 (BNROM, NINA-01)
  *
@@ -1413,6 +2199,209 @@ Mappers[66].prototype.write = function (address, value) {
   }
 };
 
+/**
+ * Mapper 069 (Sunsoft FME-7)
+ *
+ * Sunsoft 5B expansion audio isn't emulated.
+ *
+ * @description http://wiki.nesdev.com/w/index.php/Sunsoft_FME-7
+ * @example Batman: Return of the Joker, Gimmick!, Hebereke, Gremlins 2 (J)
+ * @constructor
+ */
+Mappers[69] = function (nes) {
+  this.nes = nes;
+
+  this.command = 0;
+
+  // $6000-$7FFF shows either PRG-RAM or a PRG-ROM bank. The RAM is kept
+  // here while ROM is shown.
+  this.prgRamSelected = true;
+  this.prgRamEnabled = true;
+  this.prgRam = null;
+
+  // 16-bit IRQ counter, counting down every CPU cycle:
+  this.irqCounter = 0;
+  this.irqEnabled = false;
+  this.irqCounterEnabled = false;
+  this.irqPending = false;
+};
+
+Mappers[69].prototype = new Mappers[0]();
+
+Mappers[69].prototype.write = function (address, value) {
+  if (address >= 0x6000 && address < 0x8000) {
+    if (this.prgRamSelected && this.prgRamEnabled) {
+      Mappers[0].prototype.write.apply(this, arguments);
+    }
+    return;
+  }
+  // Writes to addresses other than MMC registers are handled by NoMapper.
+  if (address < 0x8000) {
+    Mappers[0].prototype.write.apply(this, arguments);
+    return;
+  }
+
+  switch (address & 0xe000) {
+    case 0x8000:
+      this.command = value & 0xf;
+      break;
+    case 0xa000:
+      this.executeCommand(this.command, value);
+      break;
+    default:
+    // Expansion audio registers: not emulated.
+  }
+};
+
+Mappers[69].prototype.executeCommand = function (cmd, arg) {
+  switch (cmd) {
+    case 0:
+    case 1:
+    case 2:
+    case 3:
+    case 4:
+    case 5:
+    case 6:
+    case 7:
+      // 1KB CHR-ROM banks:
+      this.load1kVromBank(arg, cmd << 10);
+      break;
+    case 8:
+      this.selectPrgRamBank(arg);
+      break;
+    case 9:
+    case 10:
+    case 11:
+      // 8KB PRG-ROM banks at 0x8000, 0xA000 and 0xC000:
+      this.load8kRomBank(arg & 0x3f, 0x8000 + ((cmd - 9) << 13));
+      break;
+    case 12:
+      switch (arg & 3) {
+        case 0:
+          this.nes.ppu.setMirroring(this.nes.rom.VERTICAL_MIRRORING);
+          break;
+        case 1:
+          this.nes.ppu.setMirroring(this.nes.rom.HORIZONTAL_MIRRORING);
+          break;
+        case 2:
+          this.nes.ppu.setMirroring(this.nes.rom.SINGLESCREEN_MIRRORING);
+          break;
+        default:
+          this.nes.ppu.setMirroring(this.nes.rom.SINGLESCREEN_MIRRORING2);
+      }
+      break;
+    case 13:
+      // IRQ control. Writing it acknowledges the IRQ:
+      this.irqEnabled = (arg & 1) !== 0;
+      this.irqCounterEnabled = (arg & 0x80) !== 0;
+      this.irqPending = false;
+      break;
+    case 14:
+      this.irqCounter = (this.irqCounter & 0xff00) | arg;
+      break;
+    default:
+      // 15:
+      this.irqCounter = (this.irqCounter & 0xff) | (arg << 8);
+  }
+};
+
+// Command 8: bit 6 shows PRG-RAM instead of ROM at $6000, bit 7 enables it.
+Mappers[69].prototype.selectPrgRamBank = function (value) {
+  var mem = this.nes.cpu.mem;
+  var ramSelected = (value & 0x40) !== 0;
+
+  if (this.prgRamSelected && !ramSelected) {
+    this.prgRam = mem.slice(0x6000, 0x8000);
+  }
+  if (!ramSelected) {
+    this.load8kRomBank(value & 0x3f, 0x6000);
+  } else if (!this.prgRamSelected) {
+    utils.copyArrayElements(this.prgRam, 0, mem, 0x6000, 0x2000);
+  }
+
+  this.prgRamSelected = ramSelected;
+  this.prgRamEnabled = (value & 0x80) !== 0;
+};
+
+// While PRG-ROM is shown at $6000, the PRG-RAM is kept in this.prgRam.
+Mappers[69].prototype.getPrgRam = function () {
+  if (this.prgRamSelected) {
+    return Mappers[0].prototype.getPrgRam.apply(this);
+  }
+  return this.prgRam.slice(0);
+};
+
+Mappers[69].prototype.loadPrgRam = function (data, offset) {
+  if (this.prgRamSelected) {
+    Mappers[0].prototype.loadPrgRam.apply(this, arguments);
+    return;
+  }
+  utils.copyArrayElements(data, 0, this.prgRam, offset || 0, data.length);
+};
+
+Mappers[69].prototype.clockCpuCycles = function (cycles) {
+  if (this.irqCounterEnabled) {
+    this.irqCounter -= cycles;
+    if (this.irqCounter < 0) {
+      // Wrapped from $0000 to $FFFF:
+      this.irqCounter &= 0xffff;
+      if (this.irqEnabled) {
+        this.irqPending = true;
+      }
+    }
+  }
+  // The IRQ line stays asserted until acknowledged:
+  if (this.irqPending) {
+    this.nes.cpu.requestIrq(this.nes.cpu.IRQ_NORMAL);
+  }
+};
+
+Mappers[69].prototype.loadROM = function () {
+  if (!this.nes.rom.valid) {
+    throw new Error("FME-7: Invalid ROM! Unable to load.");
+  }
+
+  // Load PRG-ROM. The last 8KB bank is fixed:
+  this.load8kRomBank(0, 0x8000);
+  this.load8kRomBank(1, 0xa000);
+  this.load8kRomBank(2, 0xc000);
+  this.load8kRomBank(this.nes.rom.romCount * 2 - 1, 0xe000);
+
+  // Load CHR-ROM:
+  this.loadCHRROM();
+
+  // Load Battery RAM (if present):
+  this.loadBatteryRam();
+
+  // Do Reset-Interrupt:
+  this.nes.cpu.requestIrq(this.nes.cpu.IRQ_RESET);
+};
+
+Mappers[69].prototype.toJSON = function () {
+  var s = Mappers[0].prototype.toJSON.apply(this);
+  s.command = this.command;
+  s.prgRamSelected = this.prgRamSelected;
+  s.prgRamEnabled = this.prgRamEnabled;
+  s.prgRam = this.prgRam;
+  s.irqCounter = this.irqCounter;
+  s.irqEnabled = this.irqEnabled;
+  s.irqCounterEnabled = this.irqCounterEnabled;
+  s.irqPending = this.irqPending;
+  return s;
+};
+
+Mappers[69].prototype.fromJSON = function (s) {
+  Mappers[0].prototype.fromJSON.apply(this, arguments);
+  this.command = s.command;
+  this.prgRamSelected = s.prgRamSelected;
+  this.prgRamEnabled = s.prgRamEnabled;
+  this.prgRam = s.prgRam === null ? null : s.prgRam.slice(0);
+  this.irqCounter = s.irqCounter;
+  this.irqEnabled = s.irqEnabled;
+  this.irqCounterEnabled = s.irqCounterEnabled;
+  this.irqPending = s.irqPending;
+};
+
 /**
  * Mapper 094 (UN1ROM)
  *
@@ -1521,6 +2510,94 @@ Mappers[180].prototype.loadROM = function () {
   this.nes.cpu.requestIrq(this.nes.cpu.IRQ_RESET);
 };
 
+/**
+ * Mapper 206 (Namco 108, DxROM)
+ *
+ * The MMC3's predecessor: the same bank registers, without IRQs, PRG mode or
+ * CHR inversion, and with mirroring fixed by the board.
+ *
+ * @description http://wiki.nesdev.com/w/index.php/INES_Mapper_206
+ * @example Dragon Spirit, Karnov, Pac-Mania, RBI Baseball, Gauntlet
+ * @constructor
+ */
+Mappers[206] = function (nes) {
+  this.nes = nes;
+  this.command = 0;
+};
+
+Mappers[206].prototype = new Mappers[0]();
+
+Mappers[206].prototype.write = function (address, value) {
+  // Writes to addresses other than MMC registers are handled by NoMapper.
+  if (address < 0x8000) {
+    Mappers[0].prototype.write.apply(this, arguments);
+    return;
+  }
+
+  switch (address & 0xe001) {
+    case 0x8000:
+      this.command = value & 7;
+      break;
+    case 0x8001:
+      this.executeCommand(this.command, value);
+      break;
+    default:
+    // Not a register.
+  }
+};
+
+Mappers[206].prototype.executeCommand = function (cmd, arg) {
+  switch (cmd) {
+    case 0:
+    case 1:
+      // 2KB CHR-ROM banks at 0x0000 and 0x0800:
+      this.load2kVromBank((arg & 0x3f) >> 1, cmd << 11);
+      break;
+    case 2:
+    case 3:
+    case 4:
+    case 5:
+      // 1KB CHR-ROM banks at 0x1000-0x1C00:
+      this.load1kVromBank(arg & 0x3f, 0x1000 + ((cmd - 2) << 10));
+      break;
+    case 6:
+      this.load8kRomBank(arg & 0xf, 0x8000);
+      break;
+    default:
+      // 7:
+      this.load8kRomBank(arg & 0xf, 0xa000);
+  }
+};
+
+Mappers[206].prototype.loadROM = function () {
+  if (!this.nes.rom.valid) {
+    throw new Error("Namco 108: Invalid ROM! Unable to load.");
+  }
+
+  // Load PRG-ROM. The last two 8KB banks are fixed:
+  this.load8kRomBank(0, 0x8000);
+  this.load8kRomBank(1, 0xa000);
+  this.load8kRomBank(this.nes.rom.romCount * 2 - 2, 0xc000);
+  this.load8kRomBank(this.nes.rom.romCount * 2 - 1, 0xe000);
+
+  // Load CHR-ROM:
+  this.loadCHRROM();
+
+  // Do Reset-Interrupt:
+  this.nes.cpu.requestIrq(this.nes.cpu.IRQ_RESET);
+};
+
+Mappers[206].prototype.toJSON = function () {
+  var s = Mappers[0].prototype.toJSON.apply(this);
+  s.command = this.command;
+  return s;
+};
+
+Mappers[206].prototype.fromJSON = function (s) {
+  Mappers[0].prototype.fromJSON.apply(this, arguments);
+  this.command = s.command;
+};
+
 /**
  * Mapper 240
  *
@@ -36,6 +36,8 @@ var NES = function (opts) {
   this.ppu = new PPU(this);
   this.papu = new PAPU(this);
   this.mmap = null; // set in loadROM()
+  // PRG read patches, keyed by address: { value, compare }. See setPrgPatches()
+  this.prgPatches = null;
   this.controllers = {
     1: new Controller(),
     2: new Controller(),
@@ -84,6 +86,7 @@ NES.prototype = {
     var cpu = this.cpu;
     var ppu = this.ppu;
     var papu = this.papu;
+    var mmap = this.mmap;
     FRAMELOOP: for (;;) {
       if (this.break) break;
       if (cpu.cyclesToHalt === 0) {
@@ -92,6 +95,7 @@ NES.prototype = {
         if (emulateSound) {
           papu.clockFrameCounter(cycles);
         }
+        mmap.clockCpuCycles(cycles);
         cycles *= 3;
       } else {
         if (cpu.cyclesToHalt > 8) {
@@ -99,12 +103,14 @@ NES.prototype = {
           if (emulateSound) {
             papu.clockFrameCounter(8);
           }
+          mmap.clockCpuCycles(8);
           cpu.cyclesToHalt -= 8;
         } else {
           cycles = cpu.cyclesToHalt * 3;
           if (emulateSound) {
             papu.clockFrameCounter(cpu.cyclesToHalt);
           }
+          mmap.clockCpuCycles(cpu.cyclesToHalt);
           cpu.cyclesToHalt = 0;
         }
       }
@@ -203,6 +209,25 @@ NES.prototype = {
     this.romData = data;
   },
 
+  // Patch CPU reads from PRG-ROM ($8000-$FFFF). Pass an array of
+  // { address, value, compare } (compare is optional), or null to disable.
+  setPrgPatches: function (patches) {
+    if (patches === null || patches.length === 0) {
+      this.prgPatches = null;
+      return;
+    }
+    this.prgPatches = {};
+    for (var i = 0; i < patches.length; i++) {
+      this.prgPatches[patches[i].address] = {
+        value: patches[i].value,
+        compare:
+          typeof patches[i].compare === "number"
+            ? patches[i].compare
+            : undefined,
+      };
+    }
+  },
+
   setFramerate: function (rate) {
     this.opts.preferredFrameRate = rate;
     this.frameTime = 1000 / rate;
@@ -291,6 +291,28 @@ PPU.prototype = {
     }
   },
 
+  // Maps each of the four nametable slots ($2000, $2400, $2800, $2C00) to
+  // one of the four nametable pages, for mappers that control nametables
+  // more finely than the standard mirroring types (MMC5, Namco 163).
+  setNametablePages: function (pages) {
+    this.triggerRendering();
+
+    // Not one of the standard types, so a later setMirroring() always applies:
+    this.currentMirroring = -1;
+
+    for (var i = 0; i < 4; i++) {
+      this.ntable1[i] = pages[i];
+
+      // Slots showing the same page share the first slot's VRAM:
+      var first = pages.indexOf(pages[i]);
+      this.defineMirrorRegion(
+        0x2000 + i * 0x400,
+        0x2000 + first * 0x400,
+        0x400,
+      );
+    }
+  },
+
   // Define a mirrored area in the address lookup table.
   // Assumes the regions don't overlap.
   // The 'to' region is the region that is physically in memory.
@@ -942,11 +964,15 @@ PPU.prototype = {
             att = attrib[tile];
           } else {
             // Fetch data:
-            t =
-              ptTile[
-                baseTile +
-                  nameTable[this.curNt].getTileIndex(this.cntHT, this.cntVT)
-              ];
+            var tileIndex = nameTable[this.curNt].getTileIndex(
+              this.cntHT,
+              this.cntVT,
+            );
+            t = ptTile[baseTile + tileIndex];
+            if (tileIndex === 0xfd || tileIndex === 0xfe) {
+              // MMC2/MMC4 switch CHR banks once these tiles are fetched:
+              this.nes.mmap.latchAccess(((baseTile + tileIndex) << 4) | 8);
+            }
             if (typeof t === "undefined") {
               continue;
             }
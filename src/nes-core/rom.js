@@ -4,9 +4,9 @@ var Tile = require("./tile");
 var ROM = function (nes) {
   this.nes = nes;
 
-  this.mapperName = new Array(92);
+  this.mapperName = new Array(256);
 
-  for (var i = 0; i < 92; i++) {
+  for (var i = 0; i < 256; i++) {
     this.mapperName[i] = "Unknown Mapper";
   }
   this.mapperName[0] = "Direct Access";
@@ -26,7 +26,7 @@ var ROM = function (nes) {
   this.mapperName[16] = "Bandai chip";
   this.mapperName[17] = "FFE F8xxx";
   this.mapperName[18] = "Jaleco SS8806 chip";
-  this.mapperName[19] = "Namcot 106 chip";
+  this.mapperName[19] = "Namco 129/163";
   this.mapperName[20] = "Famicom Disk System";
   this.mapperName[21] = "Konami VRC4a";
   this.mapperName[22] = "Konami VRC2a";
@@ -46,6 +46,7 @@ var ROM = function (nes) {
   this.mapperName[71] = "Camerica chip";
   this.mapperName[78] = "Irem 74HC161/32-based";
   this.mapperName[91] = "Pirate HK-SF3 chip";
+  this.mapperName[206] = "Namco 108 (DxROM)";
 };
 
 ROM.prototype = {
@@ -73,40 +74,134 @@ ROM.prototype = {
   mapperType: null,
   valid: false,
 
-  load: function (data) {
-    var i, j, v;
+  // Header formats:
+  FORMAT_ARCHAIC_INES: "archaic iNES",
+  FORMAT_INES: "iNES",
+  FORMAT_NES2: "NES 2.0",
+
+  // NES 2.0 CPU/PPU timing (byte 12):
+  TIMING_NAMES: ["NTSC", "PAL", "multi-region", "Dendy"],
+
+  format: null,
+  submapper: null,
+  prgRomSize: null,
+  chrRomSize: null,
+  prgRamSize: null,
+  prgNvramSize: null,
+  chrRamSize: null,
+  chrNvramSize: null,
+  timing: null,
+  consoleType: null,
+  miscRomCount: null,
+  expansionDevice: null,
 
-    if (data.indexOf("NES\x1a") === -1) {
-      throw new Error("Not a valid NES ROM.");
+  // Decodes the 16-byte header and checks the file is long enough for the
+  // trainer, PRG-ROM and CHR-ROM it declares.
+  // See https://www.nesdev.org/wiki/NES_2.0 and https://www.nesdev.org/wiki/INES
+  parseHeader: function (data) {
+    var i;
+
+    if (data.slice(0, 4) !== "NES\x1a" || data.length < 16) {
+      throw new Error('Not a valid NES ROM: missing the "NES\\x1a" header.');
     }
     this.header = new Array(16);
     for (i = 0; i < 16; i++) {
       this.header[i] = data.charCodeAt(i) & 0xff;
     }
-    this.romCount = this.header[4];
-    this.vromCount = this.header[5] * 2; // Get the number of 4kB banks, not 8kB
-    this.mirroring = (this.header[6] & 1) !== 0 ? 1 : 0;
-    this.batteryRam = (this.header[6] & 2) !== 0;
-    this.trainer = (this.header[6] & 4) !== 0;
-    this.fourScreen = (this.header[6] & 8) !== 0;
-    this.mapperType = (this.header[6] >> 4) | (this.header[7] & 0xf0);
-    /* TODO
-        if (this.batteryRam)
-            this.loadBatteryRam();*/
-    // Check whether byte 8-15 are zero's:
-    var foundError = false;
-    for (i = 8; i < 16; i++) {
-      if (this.header[i] !== 0) {
-        foundError = true;
-        break;
+    var h = this.header;
+    this.mirroring = (h[6] & 1) !== 0 ? 1 : 0;
+    this.batteryRam = (h[6] & 2) !== 0;
+    this.trainer = (h[6] & 4) !== 0;
+    this.fourScreen = (h[6] & 8) !== 0;
+
+    if ((h[7] & 0x0c) === 0x08) {
+      this.format = this.FORMAT_NES2;
+      this.mapperType = (h[6] >> 4) | (h[7] & 0xf0) | ((h[8] & 0x0f) << 8);
+      this.submapper = h[8] >> 4;
+      this.prgRomSize = this.nes2RomSize(h[4], h[9] & 0x0f, 16384);
+      this.chrRomSize = this.nes2RomSize(h[5], h[9] >> 4, 8192);
+      this.prgRamSize = this.nes2RamSize(h[10] & 0x0f);
+      this.prgNvramSize = this.nes2RamSize(h[10] >> 4);
+      this.chrRamSize = this.nes2RamSize(h[11] & 0x0f);
+      this.chrNvramSize = this.nes2RamSize(h[11] >> 4);
+      this.timing = this.TIMING_NAMES[h[12] & 3];
+      this.consoleType = h[7] & 3;
+      this.miscRomCount = h[14] & 3;
+      this.expansionDevice = h[15] & 0x3f;
+    } else {
+      // Bytes 12-15 must be zero in iNES. Old dumpers wrote junk (e.g.
+      // "DiskDude!") from byte 7 on, so byte 7 can't be trusted otherwise.
+      var junk = (h[7] & 0x0c) !== 0;
+      for (i = 12; i < 16; i++) {
+        if (h[i] !== 0) {
+          junk = true;
+        }
       }
+      this.format = junk ? this.FORMAT_ARCHAIC_INES : this.FORMAT_INES;
+      this.mapperType = junk ? h[6] >> 4 : (h[6] >> 4) | (h[7] & 0xf0);
+      this.submapper = null;
+      this.prgRomSize = h[4] * 16384;
+      this.chrRomSize = h[5] * 8192;
+      // Byte 8 is the PRG-RAM size in 8kB units, where 0 means 8kB
+      this.prgRamSize = junk || h[8] === 0 ? 8192 : h[8] * 8192;
+      this.prgNvramSize = 0;
+      this.chrRamSize = this.chrRomSize === 0 ? 8192 : 0;
+      this.chrNvramSize = 0;
+      this.timing = null;
+      this.consoleType = junk ? 0 : h[7] & 3;
+      this.miscRomCount = 0;
+      this.expansionDevice = null;
     }
-    if (foundError) {
-      this.mapperType &= 0xf; // Ignore byte 7
+
+    this.romCount = Math.ceil(this.prgRomSize / 16384);
+    this.vromCount = Math.ceil(this.chrRomSize / 4096); // 4kB banks
+
+    if (this.prgRomSize === 0) {
+      throw new Error("Invalid ROM header: no PRG-ROM.");
     }
-    // Load PRG-ROM banks:
+    var trainerSize = this.trainer ? 512 : 0;
+    var expected = 16 + trainerSize + this.prgRomSize + this.chrRomSize;
+    if (data.length < expected) {
+      throw new Error(
+        "File truncated: expected " +
+          expected +
+          " bytes (16-byte header" +
+          (trainerSize ? " + 512-byte trainer" : "") +
+          " + " +
+          this.prgRomSize +
+          " bytes PRG-ROM + " +
+          this.chrRomSize +
+          " bytes CHR-ROM), got " +
+          data.length +
+          ".",
+      );
+    }
+  },
+
+  // NES 2.0 ROM sizes are either a bank count (12 bits) or, when the MSB
+  // nibble is $F, 2^exponent * (multiplier * 2 + 1) bytes.
+  nes2RomSize: function (lsb, msb, bankSize) {
+    if (msb === 0x0f) {
+      return Math.pow(2, lsb >> 2) * ((lsb & 3) * 2 + 1);
+    }
+    return ((msb << 8) | lsb) * bankSize;
+  },
+
+  // NES 2.0 RAM sizes are shift counts: 64 << n bytes, with 0 meaning none
+  nes2RamSize: function (shift) {
+    return shift === 0 ? 0 : 64 << shift;
+  },
+
+  load: function (data) {
+    var i, j, v;
+
+    this.parseHeader(data);
+    /* TODO
+        if (this.batteryRam)
+            this.loadBatteryRam();*/
+    // Load PRG-ROM banks (after the trainer, which isn't used):
     this.rom = new Array(this.romCount);
-    var offset = 16;
+    var offset = 16 + (this.trainer ? 512 : 0);
     for (i = 0; i < this.romCount; i++) {
       this.rom[i] = new Array(16384);
       for (j = 0; j < 16384; j++) {
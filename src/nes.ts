@@ -1,23 +1,109 @@
-import { NESButton } from './types';
+import {
+  NESButton, NESPlayer, SaveStateInfo, MemoryRegion, MemoryFreeze, Cheat, Movie, MovieFrame, MoviePlaybackResult,
+  OamSprite, ScreenTiles, ScreenRegion, PpuSnapshot, AudioClip
+} from './types';
 import * as fs from 'fs';
 import * as path from 'path';
-import { createCanvas, Canvas } from 'canvas';
+import * as crypto from 'crypto';
+import { RewindBuffer } from './rewind';
+import { fm2RomChecksum } from './movie';
+import { readRomInfo } from './romInfo';
+import { readRomFile, splitRomPath } from './romLibrary';
+import { applyPatch } from './utils/patch';
 import { log } from './utils/logger';
+import { envInteger } from './utils/env';
 
 // Import NES core (built into project from jsnes source)
 const NESCore = require('./nes-core/nes');
 const Controller = require('./nes-core/controller');
 
+// Map our button enum to jsnes Controller button constants
+const BUTTON_MAP: Record<NESButton, number> = {
+  [NESButton.UP]: Controller.BUTTON_UP,
+  [NESButton.DOWN]: Controller.BUTTON_DOWN,
+  [NESButton.LEFT]: Controller.BUTTON_LEFT,
+  [NESButton.RIGHT]: Controller.BUTTON_RIGHT,
+  [NESButton.A]: Controller.BUTTON_A,
+  [NESButton.B]: Controller.BUTTON_B,
+  [NESButton.START]: Controller.BUTTON_START,
+  [NESButton.SELECT]: Controller.BUTTON_SELECT
+};
+
+// Size of each address space exposed by readMemory
+const MEMORY_REGION_SIZE: Record<MemoryRegion, number> = {
+  [MemoryRegion.CPU]: 0x10000,
+  [MemoryRegion.VRAM]: 0x4000,
+  [MemoryRegion.OAM]: 0x100,
+  [MemoryRegion.PALETTE]: 0x20
+};
+
+// Battery-backed SRAM lives at $6000-$7FFF
+const SRAM_START = 0x6000;
+const SRAM_SIZE = 0x2000;
+
+// Delay before flushing SRAM writes to the .sav file, so a burst of writes is saved once
+const SRAM_FLUSH_DELAY_MS = 1000;
+
+// Rewind snapshot defaults: one snapshot every half second, 32MB of compressed states
+const DEFAULT_REWIND_INTERVAL_FRAMES = 30;
+const DEFAULT_REWIND_BUFFER_MB = 32;
+
+// PPU render buffers that the core rebuilds at the start of every frame. Rewind snapshots,
+// which are always taken between frames, leave them out: they are over half of the state.
+const PPU_FRAME_BUFFERS = ['buffer', 'bgbuffer', 'pixrendered'];
+
+// Audio is captured as interleaved stereo at the core's sample rate, in one-second chunks,
+// and capped so a forgotten capture can't eat all the memory
+const AUDIO_SAMPLE_RATE = 48000;
+const AUDIO_CHANNELS = 2;
+const AUDIO_CHUNK_SAMPLES = AUDIO_SAMPLE_RATE * AUDIO_CHANNELS;
+const MAX_AUDIO_CAPTURE_SECONDS = 300;
+
+interface SaveState extends SaveStateInfo {
+  // Serialized core state plus the frame that was on screen when it was taken
+  data: string;
+}
+
 export class NESEmulator {
   private nes: any;
-  private canvas: Canvas;
   private romLoaded: boolean = false;
   private romPath?: string;
+  private romHash?: string;
+  // The ROM image as loaded, after any patches, and the patches that were applied
+  private romData?: Buffer;
+  private romPatches: string[] = [];
   private frameBuffer: number[] = [];
+  // Frozen CPU addresses and the value re-applied after every frame
+  private freezes: Map<number, number> = new Map();
+  // Active cheat codes; PRG patches live in the core, RAM cheats are applied per frame
+  private cheats: Cheat[] = [];
+  private cheatsEnabled: boolean = true;
+  // Save-state slots, keyed by ROM hash and then by slot name
+  private saveStates: Map<string, Map<string, SaveState>> = new Map();
+  // Pending debounced write of battery-backed SRAM
+  private sramFlushTimer?: NodeJS.Timeout;
+  // Frames run since the ROM was loaded, and periodic snapshots for rewinding
+  private frameCount: number = 0;
+  private rewindBuffer: RewindBuffer;
+  // FCEUX-style checksum of the loaded ROM, for matching .fm2 movies
+  private romChecksum?: string;
+  // Movie being recorded: where it started and the controller state of every frame since
+  private recording?: { startState?: string; startFrame: number; frames: MovieFrame[]; rerecordCount: number };
+  // Battery saves are not written while a movie is recorded or played back
+  private moviePlaying: boolean = false;
+  // SRAM from before a power-on movie blanked it, put back when the movie ends so it never reaches the .sav file
+  private sramBeforeMovie?: Buffer;
+  // Sound emulation is off unless EMULATE_SOUND is set; audio capture turns it on while it runs
+  private soundEnabled: boolean;
+  private audioCapture?: { chunks: Float32Array[]; length: number; frames: number; truncated: boolean };
+  // Called after every emulated frame, e.g. to grab frames for a clip
+  private frameListener?: (frame: number) => void;
 
   constructor() {
-    // Create a canvas for rendering (NES resolution: 256x240)
-    this.canvas = createCanvas(256, 240);
+    const rewindInterval = envInteger('REWIND_INTERVAL_FRAMES', DEFAULT_REWIND_INTERVAL_FRAMES, 0);
+    const rewindBudgetMb = envInteger('REWIND_BUFFER_MB', DEFAULT_REWIND_BUFFER_MB, 0);
+    this.rewindBuffer = new RewindBuffer(rewindInterval, rewindBudgetMb * 1024 * 1024);
+    this.soundEnabled = process.env.EMULATE_SOUND === 'true' || process.env.EMULATE_SOUND === '1';
 
     // Initialize NES core with onFrame callback to capture frame buffer
     this.nes = new NESCore({
@@ -25,25 +111,68 @@ export class NESEmulator {
         // Copy the buffer to avoid jsnes reusing the array reference
         this.frameBuffer = Array.from(buffer);
       },
-      emulateSound: false,
-      sampleRate: 48000
+      onBatteryRamWrite: () => this.scheduleSramFlush(),
+      onAudioSample: (left: number, right: number) => this.captureAudioSample(left, right),
+      emulateSound: this.soundEnabled,
+      sampleRate: AUDIO_SAMPLE_RATE
     });
   }
 
   /**
    * Load a ROM file
-   * @param romPath Path to the .nes ROM file
+   * @param romPath Path to the .nes ROM file, or "<archive>.zip#<entry>" for a ROM inside a zip
+   * @param patches IPS, BPS or UPS patches to apply in memory, in order
    */
-  public loadRom(romPath: string): void {
+  public loadRom(romPath: string, patches: string[] = []): void {
     try {
-      const romData = fs.readFileSync(romPath, 'binary');
+      // Don't lose the previous game's pending SRAM writes
+      this.flushSram();
+
+      let rom = readRomFile(romPath);
+      for (const patchPath of patches) {
+        try {
+          rom = applyPatch(rom, readRomFile(patchPath));
+        } catch (error) {
+          throw new Error(`Failed to apply patch ${path.basename(patchPath)}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        log.info(`Applied patch: ${path.basename(patchPath)}`);
+      }
+      const romData = rom.toString('binary');
+      // Check the header before the core replaces the running game with a ROM it can't run
+      const info = readRomInfo(romPath, rom);
+      if (!info.mapperSupported) {
+        throw new Error(`Mapper ${info.mapper} (${info.mapperName}) is not supported`);
+      }
+      if (info.extraBytes > 0) {
+        log.warn(`${path.basename(romPath)} has ${info.extraBytes} bytes past the ROM data declared in its ${info.format} header`);
+      }
       this.nes.loadROM(romData);
+      this.freezes.clear();
       this.romLoaded = true;
       this.romPath = romPath;
+      this.romData = rom;
+      this.romPatches = [...patches];
+      this.romHash = crypto.createHash('sha1').update(rom).digest('hex');
+      this.romChecksum = fm2RomChecksum(rom);
+      if (this.recording) {
+        log.warn('Discarding the movie being recorded because a new ROM was loaded');
+        this.recording = undefined;
+      }
+      if (this.audioCapture) {
+        log.warn('Discarding the audio being captured because a new ROM was loaded');
+        this.audioCapture = undefined;
+        this.nes.opts.emulateSound = this.soundEnabled;
+      }
+      this.sramBeforeMovie = undefined;
+      this.loadSavFile();
+      this.frameCount = 0;
+      this.rewindBuffer.clear();
+      this.captureRewindSnapshot();
       log.info(`ROM loaded: ${path.basename(romPath)}`);
     } catch (error) {
-      log.error(`Error loading ROM: ${error}`);
-      throw new Error(`Failed to load ROM: ${error}`);
+      const message = error instanceof Error ? error.message : String(error);
+      log.error(`Error loading ROM: ${message}`);
+      throw new Error(message);
     }
   }
 
@@ -51,39 +180,46 @@ export class NESEmulator {
    * Press a button on the NES controller
    * @param button Button to press
    * @param durationFrames Number of frames to hold the button
+   * @param player Controller port to press the button on
+   */
+  public pressButton(button: NESButton, durationFrames: number = 1, player: NESPlayer = 1): void {
+    this.pressButtons([button], durationFrames, 1, player);
+  }
+
+  /**
+   * Press several buttons on the NES controller at the same time
+   * @param buttons Buttons to hold together
+   * @param durationFrames Number of frames to hold the buttons
+   * @param releaseFrames Number of frames to advance after releasing the buttons
+   * @param player Controller port to press the buttons on
    */
-  public pressButton(button: NESButton, durationFrames: number = 1): void {
+  public pressButtons(
+    buttons: NESButton[],
+    durationFrames: number = 1,
+    releaseFrames: number = 1,
+    player: NESPlayer = 1
+  ): void {
     if (!this.romLoaded) {
       throw new Error('No ROM loaded');
     }
 
-    // Map our button enum to jsnes Controller button constants
-    const buttonMap: Record<NESButton, number> = {
-      [NESButton.UP]: Controller.BUTTON_UP,
-      [NESButton.DOWN]: Controller.BUTTON_DOWN,
-      [NESButton.LEFT]: Controller.BUTTON_LEFT,
-      [NESButton.RIGHT]: Controller.BUTTON_RIGHT,
-      [NESButton.A]: Controller.BUTTON_A,
-      [NESButton.B]: Controller.BUTTON_B,
-      [NESButton.START]: Controller.BUTTON_START,
-      [NESButton.SELECT]: Controller.BUTTON_SELECT
-    };
-
-    const jsnesButton = buttonMap[button];
+    const jsnesButtons = buttons.map(button => BUTTON_MAP[button]);
 
-    // Press the button
-    this.nes.buttonDown(1, jsnesButton);
+    // Press the buttons
+    jsnesButtons.forEach(jsnesButton => this.nes.buttonDown(player, jsnesButton));
 
     // Hold for durationFrames
     for (let i = 0; i < durationFrames; i++) {
-      this.nes.frame();
+      this.runFrame();
     }
 
-    // Release the button
-    this.nes.buttonUp(1, jsnesButton);
+    // Release the buttons
+    jsnesButtons.forEach(jsnesButton => this.nes.buttonUp(player, jsnesButton));
 
-    // Advance one extra frame after release
-    this.nes.frame();
+    // Advance after release (one frame by default)
+    for (let i = 0; i < releaseFrames; i++) {
+      this.runFrame();
+    }
   }
 
   /**
@@ -93,35 +229,842 @@ export class NESEmulator {
     if (!this.romLoaded) {
       throw new Error('No ROM loaded');
     }
+    this.runFrame();
+  }
+
+  /**
+   * Run one frame of the core, re-apply frozen memory values and take rewind snapshots
+   */
+  private runFrame(): void {
+    this.recording?.frames.push([this.getControllerMask(1), this.getControllerMask(2)]);
     this.nes.frame();
+    this.applyFreezes();
+    this.applyRamCheats();
+
+    this.frameCount++;
+    if (this.audioCapture) {
+      this.audioCapture.frames++;
+    }
+    if (this.rewindBuffer.shouldCapture(this.frameCount)) {
+      this.captureRewindSnapshot();
+    }
+    this.frameListener?.(this.frameCount);
   }
 
   /**
-   * Get the current screen as a base64 encoded PNG
-   * @returns Base64 encoded PNG image
+   * Set (or clear, with undefined) the callback run after every emulated frame
    */
-  public getScreenAsBase64(): string {
+  public setFrameListener(listener?: (frame: number) => void): void {
+    this.frameListener = listener;
+  }
+
+  /**
+   * Step back in time to the newest rewind snapshot at least `frames` frames ago.
+   * Snapshots are taken every REWIND_INTERVAL_FRAMES frames, so the actual
+   * distance is rounded up to the next snapshot.
+   * @param frames Number of frames to go back
+   * @returns Number of frames actually rewound
+   */
+  public rewind(frames: number): number {
     if (!this.romLoaded) {
       throw new Error('No ROM loaded');
     }
+    if (!this.rewindBuffer.isEnabled()) {
+      throw new Error('Rewind is disabled (REWIND_BUFFER_MB or REWIND_INTERVAL_FRAMES is 0)');
+    }
+
+    const targetFrame = this.frameCount - frames;
+    if (this.recording && targetFrame < this.recording.startFrame) {
+      throw new Error('Cannot rewind past the start of the movie being recorded');
+    }
+
+    const snapshot = this.rewindBuffer.rewindTo(targetFrame);
+    if (!snapshot) {
+      throw new Error('No rewind snapshots available');
+    }
+
+    this.restoreState(snapshot.state);
+    const rewound = this.frameCount - snapshot.frame;
+    this.frameCount = snapshot.frame;
+
+    // Rewinding while recording re-records from that point
+    if (this.recording) {
+      this.recording.frames.length = Math.max(0, snapshot.frame - this.recording.startFrame);
+      this.recording.rerecordCount++;
+    }
+    return rewound;
+  }
 
-    const ctx = this.canvas.getContext('2d');
-    const imageData = ctx.createImageData(256, 240);
+  /**
+   * How many frames back the oldest rewind snapshot is (or the start of the movie being recorded)
+   */
+  public getRewindableFrames(): number {
+    const oldest = this.rewindBuffer.oldestFrame();
+    if (oldest === undefined) {
+      return 0;
+    }
+    const limit = this.recording ? Math.max(oldest, this.recording.startFrame) : oldest;
+    return Math.max(0, this.frameCount - limit);
+  }
+
+  /**
+   * Number of frames run since the ROM was loaded
+   */
+  public getFrameCount(): number {
+    return this.frameCount;
+  }
+
+  /**
+   * Start recording controller input for every frame
+   * @param fromPowerOn Power-cycle the console first (with blank SRAM) instead of
+   * starting from the current state. Only power-on movies can be exported as FM2.
+   */
+  public startRecording(fromPowerOn: boolean): void {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+    if (this.recording) {
+      throw new Error('Already recording a movie');
+    }
+
+    if (fromPowerOn) {
+      this.powerOn();
+    } else {
+      // Make sure rewinding can always get back to the start of the movie
+      this.captureRewindSnapshot();
+    }
+    this.recording = {
+      startState: fromPowerOn ? undefined : this.serializeState(),
+      startFrame: this.frameCount,
+      frames: [],
+      rerecordCount: 0
+    };
+  }
+
+  /**
+   * Get the movie recorded so far without ending the recording
+   */
+  public getRecordedMovie(): Movie {
+    const recording = this.recording;
+    if (!recording || !this.romPath) {
+      throw new Error('No movie is being recorded');
+    }
+
+    return {
+      romFilename: path.basename(this.romPath),
+      romHash: this.romHash,
+      romChecksum: this.romChecksum,
+      startState: recording.startState,
+      frames: recording.frames,
+      rerecordCount: recording.rerecordCount,
+      finalScreenHash: this.getScreenHash()
+    };
+  }
+
+  /**
+   * Stop recording and return the movie
+   */
+  public stopRecording(): Movie {
+    const movie = this.getRecordedMovie();
+    this.recording = undefined;
+    this.restoreSramAfterMovie();
+    return movie;
+  }
+
+  public isRecording(): boolean {
+    return !!this.recording;
+  }
+
+  /**
+   * Start collecting the audio samples produced by every frame run from now on.
+   * Sound emulation is switched on for the duration of the capture.
+   */
+  public startAudioCapture(): void {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+    if (this.audioCapture) {
+      throw new Error('Already capturing audio');
+    }
+    if (!this.nes.opts.emulateSound) {
+      // The APU's DC filter would start from zero and pop on the first sample;
+      // settle it on the current output level before switching sound on
+      this.nes.papu.sample();
+      this.nes.papu.smpAccumL = 0;
+      this.nes.papu.smpAccumR = 0;
+      this.nes.opts.emulateSound = true;
+    }
+    this.audioCapture = { chunks: [], length: 0, frames: 0, truncated: false };
+  }
+
+  /**
+   * Stop capturing audio and return the samples collected since startAudioCapture
+   */
+  public stopAudioCapture(): AudioClip {
+    const capture = this.audioCapture;
+    if (!capture) {
+      throw new Error('No audio is being captured');
+    }
+    this.audioCapture = undefined;
+    this.nes.opts.emulateSound = this.soundEnabled;
+
+    const samples = new Float32Array(capture.length);
+    let offset = 0;
+    for (const chunk of capture.chunks) {
+      const part = chunk.subarray(0, Math.min(chunk.length, capture.length - offset));
+      samples.set(part, offset);
+      offset += part.length;
+    }
+    return {
+      sampleRate: AUDIO_SAMPLE_RATE,
+      channels: AUDIO_CHANNELS,
+      samples,
+      frames: capture.frames,
+      truncated: capture.truncated
+    };
+  }
 
-    // NES core palette stores colors as 0xBBGGRR — swap R and B for RGBA
+  public isCapturingAudio(): boolean {
+    return !!this.audioCapture;
+  }
+
+  /**
+   * Replay a movie from its start state (or power-on) and compare the final screen with the recording's
+   */
+  public playMovie(movie: Movie): MoviePlaybackResult {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+    if (this.recording) {
+      throw new Error('Stop recording before playing a movie');
+    }
+    if (movie.romHash && movie.romHash !== this.romHash) {
+      throw new Error(`Movie was recorded for a different ROM (${movie.romFilename})`);
+    }
+    if (!movie.romHash && movie.romChecksum && movie.romChecksum !== this.romChecksum) {
+      log.warn(`Movie ROM checksum ${movie.romChecksum} does not match the loaded ROM (${this.romChecksum})`);
+    }
+
+    this.moviePlaying = true;
+    try {
+      if (movie.startState) {
+        this.restoreState(movie.startState);
+        this.captureRewindSnapshot();
+      } else {
+        this.powerOn();
+      }
+
+      for (const [p1, p2, command = 0] of movie.frames) {
+        if (command & 2) {
+          this.nes.reloadROM();
+        } else if (command & 1) {
+          this.nes.cpu.requestIrq(this.nes.cpu.IRQ_RESET);
+        }
+        this.setControllerMask(1, p1);
+        this.setControllerMask(2, p2);
+        this.runFrame();
+      }
+    } finally {
+      this.setControllerMask(1, 0);
+      this.setControllerMask(2, 0);
+      this.moviePlaying = false;
+      this.restoreSramAfterMovie();
+    }
+
+    const finalScreenHash = this.getScreenHash();
+    return {
+      frames: movie.frames.length,
+      finalScreenHash,
+      screenMatches: movie.finalScreenHash ? movie.finalScreenHash === finalScreenHash : undefined
+    };
+  }
+
+  /**
+   * SHA-1 of the frame currently on screen, for checking that a replay ends where the recording did
+   */
+  public getScreenHash(): string {
+    return crypto.createHash('sha1').update(Buffer.from(Int32Array.from(this.frameBuffer).buffer)).digest('hex');
+  }
+
+  /**
+   * SHA-1 of the pixels in a rectangle of the current screen
+   */
+  public getRegionHash(region: ScreenRegion): string {
+    const { x, y, width, height } = region;
+    if (x < 0 || y < 0 || width <= 0 || height <= 0 || x + width > 256 || y + height > 240) {
+      throw new Error(`Region ${width}x${height} at ${x},${y} is outside the 256x240 screen`);
+    }
+
+    const pixels = new Int32Array(width * height);
+    for (let row = 0; row < height; row++) {
+      for (let col = 0; col < width; col++) {
+        pixels[row * width + col] = this.frameBuffer[(y + row) * 256 + x + col] ?? 0;
+      }
+    }
+    return crypto.createHash('sha1').update(Buffer.from(pixels.buffer)).digest('hex');
+  }
+
+  /**
+   * Power-cycle the console for a movie: the core is reset with blank RAM/SRAM and released controllers.
+   * The SRAM it blanks is put back when the movie ends.
+   */
+  private powerOn(): void {
+    this.flushSram();
+    this.sramBeforeMovie = this.exportSram();
+    this.nes.reloadROM();
+    this.setControllerMask(1, 0);
+    this.setControllerMask(2, 0);
+    this.frameBuffer = new Array(256 * 240).fill(0);
+    this.frameCount = 0;
+    this.rewindBuffer.clear();
+    this.captureRewindSnapshot();
+  }
+
+  private getControllerMask(player: NESPlayer): number {
+    const state: number[] = this.nes.controllers[player].state;
+    return state.reduce((mask, value, button) => (value === 0x41 ? mask | (1 << button) : mask), 0);
+  }
+
+  private setControllerMask(player: NESPlayer, mask: number): void {
+    for (let button = 0; button < 8; button++) {
+      this.nes.controllers[player].state[button] = mask & (1 << button) ? 0x41 : 0x40;
+    }
+  }
+
+  private captureAudioSample(left: number, right: number): void {
+    const capture = this.audioCapture;
+    if (!capture) {
+      return;
+    }
+    if (capture.length >= MAX_AUDIO_CAPTURE_SECONDS * AUDIO_CHUNK_SAMPLES) {
+      capture.truncated = true;
+      return;
+    }
+    const index = capture.length % AUDIO_CHUNK_SAMPLES;
+    if (index === 0) {
+      capture.chunks.push(new Float32Array(AUDIO_CHUNK_SAMPLES));
+    }
+    const chunk = capture.chunks[capture.chunks.length - 1];
+    chunk[index] = left;
+    chunk[index + 1] = right;
+    capture.length += AUDIO_CHANNELS;
+  }
+
+  private captureRewindSnapshot(): void {
+    if (this.rewindBuffer.isEnabled()) {
+      this.rewindBuffer.push(this.frameCount, this.serializeState(true));
+    }
+  }
+
+  /**
+   * Serialize the core state plus the frame currently on screen.
+   * The core's toJSON() hands out live references to its memory arrays,
+   * so this must be stringified immediately to get a snapshot later frames can't mutate.
+   * @param omitFrameBuffers Leave out the PPU buffers rebuilt every frame, for rewind snapshots
+   */
+  private serializeState(omitFrameBuffers: boolean = false): string {
+    const core = this.nes.toJSON();
+    if (omitFrameBuffers) {
+      for (const key of PPU_FRAME_BUFFERS) {
+        delete core.ppu[key];
+      }
+    }
+    return JSON.stringify({ core, frameBuffer: this.frameBuffer });
+  }
+
+  private restoreState(data: string): void {
+    const { core, frameBuffer } = JSON.parse(data);
+    // Rewind snapshots don't have the per-frame PPU buffers: keep using the current ones
+    for (const key of PPU_FRAME_BUFFERS) {
+      core.ppu[key] ??= this.nes.ppu[key];
+    }
+    this.nes.fromJSON(core);
+    this.frameBuffer = frameBuffer;
+  }
+
+  /**
+   * Get the current screen as 256x240 RGB pixels (3 bytes per pixel)
+   */
+  public getScreenRgb(): Buffer {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+
+    const rgb = Buffer.alloc(256 * 240 * 3);
+
+    // NES core palette stores colors as 0xBBGGRR
     for (let i = 0; i < this.frameBuffer.length; i++) {
       const color = this.frameBuffer[i];
-      const offset = i * 4;
-      imageData.data[offset] = color & 0xff;              // R (low byte)
-      imageData.data[offset + 1] = (color >> 8) & 0xff;   // G (middle byte)
-      imageData.data[offset + 2] = (color >> 16) & 0xff;  // B (high byte)
-      imageData.data[offset + 3] = 0xff;                   // A
+      const offset = i * 3;
+      rgb[offset] = color & 0xff;              // R (low byte)
+      rgb[offset + 1] = (color >> 8) & 0xff;   // G (middle byte)
+      rgb[offset + 2] = (color >> 16) & 0xff;  // B (high byte)
     }
 
-    ctx.putImageData(imageData, 0, 0);
+    return rgb;
+  }
 
-    // Convert to base64 PNG
-    return this.canvas.toDataURL('image/png').split(',')[1];
+  /**
+   * Read the visible background tiles (following the scroll set for the frame)
+   * and the sprites in OAM. Mid-frame scroll splits, e.g. status bars, are not
+   * tracked: the whole grid uses the scroll the game last wrote.
+   */
+  public getScreenTiles(): ScreenTiles {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+
+    const ppu = this.nes.ppu;
+    const scrollX = ppu.regH * 256 + ppu.regHT * 8 + ppu.regFH;
+    const scrollY = ppu.regV * 240 + ppu.regVT * 8 + ppu.regFV;
+
+    const tiles: number[][] = [];
+    const palettes: number[][] = [];
+    for (let row = 0; row < 30; row++) {
+      const tileRow: number[] = [];
+      const paletteRow: number[] = [];
+      for (let col = 0; col < 32; col++) {
+        // Position in the 512x480 space covered by the four nametables
+        const worldX = (scrollX + col * 8 + 4) % 512;
+        const worldY = (scrollY + row * 8 + 4) % 480;
+        const nametable = 0x2000 + ((worldY >= 240 ? 2 : 0) + (worldX >= 256 ? 1 : 0)) * 0x400;
+        const tileX = (worldX % 256) >> 3;
+        const tileY = (worldY % 240) >> 3;
+
+        tileRow.push(ppu.mirroredLoad(nametable + tileY * 32 + tileX) ?? 0);
+        const attribute = ppu.mirroredLoad(nametable + 0x3c0 + (tileY >> 2) * 8 + (tileX >> 2)) ?? 0;
+        paletteRow.push((attribute >> (((tileY & 2) << 1) | (tileX & 2))) & 3);
+      }
+      tiles.push(tileRow);
+      palettes.push(paletteRow);
+    }
+
+    return {
+      scrollX,
+      scrollY,
+      tiles,
+      palettes,
+      sprites: this.getOamSprites(),
+      spriteHeight: this.getSpriteHeight()
+    };
+  }
+
+  /**
+   * Copy the PPU state the debug views (nametables, pattern tables, palettes) are drawn from
+   */
+  public getPpuSnapshot(): PpuSnapshot {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+
+    const ppu = this.nes.ppu;
+    const nametables: number[] = [];
+    for (let address = 0x2000; address < 0x3000; address++) {
+      nametables.push(ppu.mirroredLoad(address) ?? 0);
+    }
+
+    return {
+      nametables,
+      patterns: ppu.ptTile.map((tile: { pix: number[] }) => Array.from(tile.pix, pixel => pixel ?? 0)),
+      backgroundColors: Array.from(ppu.imgPalette),
+      spriteColors: Array.from(ppu.sprPalette),
+      paletteRam: Array.from(ppu.vramMem.slice(0x3f00, 0x3f20)),
+      backgroundPatternTable: ppu.f_bgPatternTable,
+      scrollX: ppu.regH * 256 + ppu.regHT * 8 + ppu.regFH,
+      scrollY: ppu.regV * 240 + ppu.regVT * 8 + ppu.regFV
+    };
+  }
+
+  /**
+   * Sprite height set in PPUCTRL: 8 for 8x8 sprites, 16 for 8x16
+   */
+  public getSpriteHeight(): number {
+    return this.nes.ppu.f_spriteSize ? 16 : 8;
+  }
+
+  /**
+   * Decode all 64 OAM entries
+   */
+  public getOamSprites(): OamSprite[] {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+
+    const oam: number[] = this.nes.ppu.spriteMem;
+    const sprites: OamSprite[] = [];
+    for (let index = 0; index < 64; index++) {
+      const attributes = oam[index * 4 + 2];
+      sprites.push({
+        index,
+        // Sprites are drawn one line below their OAM Y coordinate
+        y: oam[index * 4] + 1,
+        tile: oam[index * 4 + 1],
+        palette: attributes & 3,
+        behindBackground: (attributes & 0x20) !== 0,
+        flipH: (attributes & 0x40) !== 0,
+        flipV: (attributes & 0x80) !== 0,
+        x: oam[index * 4 + 3]
+      });
+    }
+    return sprites;
+  }
+
+  /**
+   * Read a range of bytes from one of the NES address spaces without side effects
+   * (no PPU register latches, no controller strobes)
+   * @param region Address space to read from
+   * @param address Start address within the region
+   * @param length Number of bytes to read
+   */
+  public readMemory(region: MemoryRegion, address: number, length: number): number[] {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+
+    const size = MEMORY_REGION_SIZE[region];
+    if (address < 0 || length < 1 || address + length > size) {
+      throw new Error(`Range $${address.toString(16)}+${length} is outside ${region} memory (size $${size.toString(16)})`);
+    }
+
+    const bytes: number[] = [];
+    for (let i = 0; i < length; i++) {
+      bytes.push(this.readByte(region, address + i));
+    }
+    return bytes;
+  }
+
+  private readByte(region: MemoryRegion, address: number): number {
+    const ppu = this.nes.ppu;
+    switch (region) {
+      case MemoryRegion.CPU:
+        // $0000-$1FFF mirrors the 2KB work RAM
+        return (address < 0x2000 ? this.nes.cpu.mem[address & 0x7ff] : this.nes.cpu.mem[address]) ?? 0;
+      case MemoryRegion.VRAM:
+        return ppu.mirroredLoad(address) ?? 0;
+      case MemoryRegion.OAM:
+        return ppu.spriteMem[address] ?? 0;
+      case MemoryRegion.PALETTE:
+        return ppu.vramMem[0x3f00 + address] ?? 0;
+    }
+  }
+
+  /**
+   * Write bytes into CPU work RAM ($0000-$1FFF, mirrored) or cartridge SRAM ($6000-$7FFF)
+   * @param address Start address
+   * @param bytes Values to write
+   */
+  public writeMemory(address: number, bytes: number[]): void {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+    this.checkWritableRange(address, bytes.length);
+
+    bytes.forEach((value, i) => this.writeCpuByte(address + i, value));
+  }
+
+  /**
+   * Write bytes and keep re-applying them after every frame until cleared
+   * @param address Start address
+   * @param bytes Values to freeze
+   */
+  public freezeMemory(address: number, bytes: number[]): void {
+    this.writeMemory(address, bytes);
+    bytes.forEach((value, i) => this.freezes.set(this.normalizeCpuAddress(address + i), value & 0xff));
+  }
+
+  /**
+   * List the currently frozen addresses
+   */
+  public listFreezes(): MemoryFreeze[] {
+    return Array.from(this.freezes.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([address, value]) => ({ address, value }));
+  }
+
+  /**
+   * Remove a freeze, or all freezes when no address is given
+   * @returns Number of freezes removed
+   */
+  public clearFreeze(address?: number): number {
+    if (address === undefined) {
+      const count = this.freezes.size;
+      this.freezes.clear();
+      return count;
+    }
+    return this.freezes.delete(this.normalizeCpuAddress(address)) ? 1 : 0;
+  }
+
+  private applyFreezes(): void {
+    this.freezes.forEach((value, address) => this.writeCpuByte(address, value));
+  }
+
+  private checkWritableRange(address: number, length: number): void {
+    const end = address + length - 1;
+    const inRam = address >= 0 && end < 0x2000;
+    const inSram = address >= 0x6000 && end <= 0x7fff;
+    if (length < 1 || (!inRam && !inSram)) {
+      throw new Error(`Range $${address.toString(16)}+${length} is not writable (only $0000-$1FFF RAM and $6000-$7FFF SRAM)`);
+    }
+  }
+
+  private normalizeCpuAddress(address: number): number {
+    // $0800-$1FFF mirror the 2KB work RAM
+    return address < 0x2000 ? address & 0x7ff : address;
+  }
+
+  private writeCpuByte(address: number, value: number): void {
+    if (address >= SRAM_START) {
+      // Through the mapper, which may keep SRAM in a PRG-RAM bank
+      this.nes.mmap.loadPrgRam([value & 0xff], address - SRAM_START);
+      this.scheduleSramFlush();
+    } else {
+      this.nes.cpu.mem[this.normalizeCpuAddress(address)] = value & 0xff;
+    }
+  }
+
+  /**
+   * Whether the loaded ROM has battery-backed SRAM
+   */
+  public hasBatteryRam(): boolean {
+    return this.romLoaded && !!this.nes.rom?.batteryRam;
+  }
+
+  /**
+   * Path of the .sav file for the loaded ROM: next to the ROM (or its zip archive), or in SAVES_DIR if set
+   */
+  public getSavPath(): string | undefined {
+    if (!this.romPath) {
+      return undefined;
+    }
+    const { filePath, entry } = splitRomPath(this.romPath);
+    const romName = path.basename(entry ?? filePath);
+    const savName = `${path.basename(romName, path.extname(romName))}.sav`;
+    const savesDir = process.env.SAVES_DIR;
+    return savesDir ? path.join(savesDir, savName) : path.join(path.dirname(filePath), savName);
+  }
+
+  /**
+   * Get a copy of the 8KB SRAM, normally shown at $6000-$7FFF. Mappers with banked PRG-RAM
+   * return the battery-backed bank even while $6000 shows another bank or PRG-ROM.
+   */
+  public exportSram(): Buffer {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+    return Buffer.from(this.nes.mmap.getPrgRam());
+  }
+
+  /**
+   * Replace SRAM ($6000-$7FFF) and persist it to the .sav file when the cartridge has a battery
+   * @param data Up to 8KB of SRAM contents; shorter data leaves the rest of SRAM untouched
+   */
+  public importSram(data: Buffer): void {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+    if (data.length > SRAM_SIZE) {
+      throw new Error(`SRAM data is ${data.length} bytes, expected at most ${SRAM_SIZE}`);
+    }
+    this.nes.mmap.loadPrgRam(data);
+    clearTimeout(this.sramFlushTimer);
+    this.sramFlushTimer = undefined;
+    this.writeSavFile();
+  }
+
+  /**
+   * Write pending SRAM changes to the .sav file now
+   */
+  public flushSram(): void {
+    if (!this.sramFlushTimer) {
+      return;
+    }
+    clearTimeout(this.sramFlushTimer);
+    this.sramFlushTimer = undefined;
+    this.writeSavFile();
+  }
+
+  private writeSavFile(): void {
+    const savPath = this.getSavPath();
+    if (!savPath || !this.hasBatteryRam()) {
+      return;
+    }
+    try {
+      fs.mkdirSync(path.dirname(savPath), { recursive: true });
+      fs.writeFileSync(savPath, this.exportSram());
+      log.verbose(`Saved SRAM to ${savPath}`);
+    } catch (error) {
+      log.error(`Error saving SRAM to ${savPath}`, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private scheduleSramFlush(): void {
+    if (this.sramFlushTimer || !this.hasBatteryRam() || this.recording || this.moviePlaying) {
+      return;
+    }
+    this.sramFlushTimer = setTimeout(() => this.flushSram(), SRAM_FLUSH_DELAY_MS);
+    // Don't keep the process alive just to save SRAM
+    this.sramFlushTimer.unref();
+  }
+
+  private restoreSramAfterMovie(): void {
+    const sram = this.sramBeforeMovie;
+    if (!sram) {
+      return;
+    }
+    this.sramBeforeMovie = undefined;
+    this.nes.mmap.loadPrgRam(sram);
+    log.debug('Restored SRAM from before the movie');
+  }
+
+  private loadSavFile(): void {
+    const savPath = this.getSavPath();
+    if (!savPath || !this.hasBatteryRam() || !fs.existsSync(savPath)) {
+      return;
+    }
+    const data = fs.readFileSync(savPath);
+    this.nes.mmap.loadPrgRam(data.subarray(0, SRAM_SIZE));
+    log.info(`Loaded SRAM from ${savPath}`);
+  }
+
+  /**
+   * Replace the active cheat list
+   * @param cheats Decoded cheats; $8000+ patch PRG reads, lower addresses are written to RAM every frame
+   */
+  public setCheats(cheats: Cheat[]): void {
+    this.cheats = cheats.slice();
+    this.updatePrgPatches();
+  }
+
+  /**
+   * Get the active cheat list
+   */
+  public getCheats(): Cheat[] {
+    return this.cheats.slice();
+  }
+
+  /**
+   * Turn all cheats on or off without forgetting them
+   */
+  public setCheatsEnabled(enabled: boolean): void {
+    this.cheatsEnabled = enabled;
+    this.updatePrgPatches();
+  }
+
+  public areCheatsEnabled(): boolean {
+    return this.cheatsEnabled;
+  }
+
+  private updatePrgPatches(): void {
+    const patches = this.cheatsEnabled ? this.cheats.filter(cheat => cheat.address >= 0x8000) : [];
+    this.nes.setPrgPatches(patches.length > 0 ? patches : null);
+  }
+
+  private applyRamCheats(): void {
+    if (!this.cheatsEnabled) {
+      return;
+    }
+    for (const cheat of this.cheats) {
+      if (cheat.address >= 0x8000) {
+        continue;
+      }
+      const address = this.normalizeCpuAddress(cheat.address);
+      if (cheat.compare === undefined || this.nes.cpu.mem[address] === cheat.compare) {
+        this.nes.cpu.mem[address] = cheat.value;
+      }
+    }
+  }
+
+  /**
+   * Save the current machine state into a named slot for the loaded ROM
+   * @param name Slot name (an existing slot with the same name is overwritten)
+   */
+  public saveState(name: string): SaveStateInfo {
+    if (!this.romLoaded || !this.romPath || !this.romHash) {
+      throw new Error('No ROM loaded');
+    }
+
+    const data = this.serializeState();
+
+    const state: SaveState = {
+      name,
+      romPath: this.romPath,
+      romHash: this.romHash,
+      createdAt: new Date().toISOString(),
+      data
+    };
+
+    let slots = this.saveStates.get(this.romHash);
+    if (!slots) {
+      slots = new Map();
+      this.saveStates.set(this.romHash, slots);
+    }
+    slots.set(name, state);
+
+    return this.toSaveStateInfo(state);
+  }
+
+  /**
+   * Restore the machine state from a named slot
+   * @param name Slot name previously passed to saveState
+   */
+  public loadState(name: string): SaveStateInfo {
+    if (!this.romLoaded || !this.romHash) {
+      throw new Error('No ROM loaded');
+    }
+    if (this.recording) {
+      throw new Error('Stop recording before loading a state (use rewind to re-record instead)');
+    }
+
+    const state = this.saveStates.get(this.romHash)?.get(name);
+    if (!state) {
+      // Give a clearer error when the slot exists, but belongs to another game
+      for (const slots of this.saveStates.values()) {
+        const other = slots.get(name);
+        if (other) {
+          throw new Error(`Save state "${name}" was created for a different ROM (${path.basename(other.romPath)})`);
+        }
+      }
+      throw new Error(`No save state named "${name}" for the loaded ROM`);
+    }
+
+    this.restoreState(state.data);
+    // Rewinding from later frames should land on the loaded state, not the timeline it replaced
+    this.captureRewindSnapshot();
+
+    return this.toSaveStateInfo(state);
+  }
+
+  /**
+   * List the save-state slots belonging to the loaded ROM
+   */
+  public listStates(): SaveStateInfo[] {
+    if (!this.romLoaded || !this.romHash) {
+      throw new Error('No ROM loaded');
+    }
+
+    const slots = this.saveStates.get(this.romHash);
+    return slots ? Array.from(slots.values()).map(state => this.toSaveStateInfo(state)) : [];
+  }
+
+  /**
+   * Delete a named save-state slot for the loaded ROM
+   * @returns true if a slot was deleted
+   */
+  public deleteState(name: string): boolean {
+    if (!this.romLoaded || !this.romHash) {
+      throw new Error('No ROM loaded');
+    }
+
+    return this.saveStates.get(this.romHash)?.delete(name) ?? false;
+  }
+
+  private toSaveStateInfo(state: SaveState): SaveStateInfo {
+    return {
+      name: state.name,
+      romPath: state.romPath,
+      romHash: state.romHash,
+      createdAt: state.createdAt
+    };
   }
 
   /**
@@ -131,6 +1074,27 @@ export class NESEmulator {
     return this.romPath;
   }
 
+  /**
+   * Get the loaded ROM image, with any patches applied
+   */
+  public getRomData(): Buffer | undefined {
+    return this.romData;
+  }
+
+  /**
+   * Get the patches applied to the loaded ROM
+   */
+  public getRomPatches(): string[] {
+    return [...this.romPatches];
+  }
+
+  /**
+   * Get the SHA-1 hash of the loaded ROM image (after patching)
+   */
+  public getRomHash(): string | undefined {
+    return this.romHash;
+  }
+
   /**
    * Check if a ROM is loaded
    */
@@ -0,0 +1,104 @@
+import { PpuSnapshot } from './types';
+
+// An image as packed RGB bytes
+export interface RgbImage {
+  width: number;
+  height: number;
+  rgb: Buffer;
+}
+
+// Outline color for the scroll window in the nametable view (0xBBGGRR)
+const SCROLL_WINDOW_COLOR = 0x00ffff;
+
+function createImage(width: number, height: number): RgbImage {
+  return { width, height, rgb: Buffer.alloc(width * height * 3) };
+}
+
+// Colors from the core are 0xBBGGRR
+function setPixel(image: RgbImage, x: number, y: number, color: number): void {
+  const offset = (y * image.width + x) * 3;
+  image.rgb[offset] = color & 0xff;
+  image.rgb[offset + 1] = (color >> 8) & 0xff;
+  image.rgb[offset + 2] = (color >> 16) & 0xff;
+}
+
+function drawTile(image: RgbImage, pixels: number[], left: number, top: number, colors: number[]): void {
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      setPixel(image, left + x, top + y, colors[pixels[y * 8 + x]]);
+    }
+  }
+}
+
+/**
+ * Draw all four nametables (512x480, $2000 top-left to $2C00 bottom-right)
+ * with the 256x240 scroll window outlined
+ */
+export function renderNametables(ppu: PpuSnapshot): RgbImage {
+  const image = createImage(512, 480);
+  const patternBase = ppu.backgroundPatternTable * 256;
+
+  for (let nametable = 0; nametable < 4; nametable++) {
+    const base = nametable * 0x400;
+    const left = (nametable & 1) * 256;
+    const top = (nametable >> 1) * 240;
+    for (let tileY = 0; tileY < 30; tileY++) {
+      for (let tileX = 0; tileX < 32; tileX++) {
+        const tile = ppu.nametables[base + tileY * 32 + tileX];
+        const attribute = ppu.nametables[base + 0x3c0 + (tileY >> 2) * 8 + (tileX >> 2)];
+        const palette = (attribute >> (((tileY & 2) << 1) | (tileX & 2))) & 3;
+        const colors = [0, 1, 2, 3].map(i => ppu.backgroundColors[i === 0 ? 0 : palette * 4 + i]);
+        drawTile(image, ppu.patterns[patternBase + tile], left + tileX * 8, top + tileY * 8, colors);
+      }
+    }
+  }
+
+  // Outline the visible area, wrapping around the edges like the scroll does
+  for (let i = 0; i < 256; i++) {
+    const x = (ppu.scrollX + i) % 512;
+    setPixel(image, x, ppu.scrollY % 480, SCROLL_WINDOW_COLOR);
+    setPixel(image, x, (ppu.scrollY + 239) % 480, SCROLL_WINDOW_COLOR);
+  }
+  for (let i = 0; i < 240; i++) {
+    const y = (ppu.scrollY + i) % 480;
+    setPixel(image, ppu.scrollX % 512, y, SCROLL_WINDOW_COLOR);
+    setPixel(image, (ppu.scrollX + 255) % 512, y, SCROLL_WINDOW_COLOR);
+  }
+
+  return image;
+}
+
+/**
+ * Draw both pattern tables side by side (256x128, 16x16 tiles each)
+ * @param palette 0-3 for the background palettes, 4-7 for the sprite palettes
+ */
+export function renderPatternTables(ppu: PpuSnapshot, palette: number): RgbImage {
+  const image = createImage(256, 128);
+  const source = palette < 4 ? ppu.backgroundColors : ppu.spriteColors;
+  const colors = [0, 1, 2, 3].map(i => (i === 0 ? ppu.backgroundColors[0] : source[(palette % 4) * 4 + i]));
+
+  ppu.patterns.forEach((pixels, index) => {
+    const table = index >> 8;
+    const tile = index & 0xff;
+    drawTile(image, pixels, table * 128 + (tile & 15) * 8, (tile >> 4) * 8, colors);
+  });
+
+  return image;
+}
+
+/**
+ * Draw the background (top row) and sprite (bottom row) palettes as 16x16 swatches (256x32)
+ */
+export function renderPalettes(ppu: PpuSnapshot): RgbImage {
+  const image = createImage(256, 32);
+  [ppu.backgroundColors, ppu.spriteColors].forEach((colors, row) => {
+    colors.forEach((color, i) => {
+      for (let y = 0; y < 16; y++) {
+        for (let x = 0; x < 16; x++) {
+          setPixel(image, i * 16 + x, row * 16 + y, color);
+        }
+      }
+    });
+  });
+  return image;
+}
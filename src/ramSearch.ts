@@ -0,0 +1,89 @@
+import { RamSearchComparison, RamSearchCandidate } from './types';
+
+/**
+ * Cheat-finder style search over the 2KB work RAM.
+ *
+ * Keeps a set of candidate addresses and the RAM snapshot they were last
+ * compared against; every filter narrows the candidates and takes a new snapshot.
+ */
+export class RamSearch {
+  private snapshot: number[] | null = null;
+  private candidates: number[] = [];
+
+  isActive(): boolean {
+    return this.snapshot !== null;
+  }
+
+  /**
+   * Start a new search with every RAM address as a candidate
+   * @param ram Current contents of work RAM
+   */
+  start(ram: number[]): number {
+    this.snapshot = ram.slice();
+    this.candidates = ram.map((_, address) => address);
+    return this.candidates.length;
+  }
+
+  /**
+   * Keep only the candidates whose value matches the comparison against the last snapshot
+   * @param ram Current contents of work RAM
+   * @param comparison How the current value must relate to the snapshot
+   * @param value Target value for the "equal_to" comparison
+   * @returns Number of remaining candidates
+   */
+  filter(ram: number[], comparison: RamSearchComparison, value?: number): number {
+    const snapshot = this.snapshot;
+    if (!snapshot) {
+      throw new Error('No RAM search in progress (call ram_search_start first)');
+    }
+    if (comparison === 'equal_to' && value === undefined) {
+      throw new Error('The "equal_to" comparison needs a value');
+    }
+
+    this.candidates = this.candidates.filter(address => {
+      const previous = snapshot[address];
+      const current = ram[address];
+      switch (comparison) {
+        case 'equal':
+          return current === previous;
+        case 'changed':
+          return current !== previous;
+        case 'increased':
+          return current > previous;
+        case 'decreased':
+          return current < previous;
+        case 'equal_to':
+          return current === value;
+      }
+    });
+    this.snapshot = ram.slice();
+
+    return this.candidates.length;
+  }
+
+  /**
+   * List the remaining candidates with their snapshot and current values
+   * @param ram Current contents of work RAM
+   * @param limit Maximum number of candidates to return
+   */
+  results(ram: number[], limit: number): { total: number; candidates: RamSearchCandidate[] } {
+    const snapshot = this.snapshot;
+    if (!snapshot) {
+      throw new Error('No RAM search in progress (call ram_search_start first)');
+    }
+
+    return {
+      total: this.candidates.length,
+      candidates: this.candidates.slice(0, limit).map(address => ({
+        address,
+        previous: snapshot[address],
+        current: ram[address]
+      }))
+    };
+  }
+
+  reset(): void {
+    this.snapshot = null;
+    this.candidates = [];
+  }
+}
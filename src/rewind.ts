@@ -0,0 +1,88 @@
+import * as zlib from 'zlib';
+
+interface RewindSnapshot {
+  // Frame number (since the ROM was loaded) the snapshot was taken at
+  frame: number;
+  // Deflated serialized machine state
+  data: Buffer;
+}
+
+/**
+ * Ring buffer of compressed machine-state snapshots for rewinding.
+ *
+ * A snapshot is taken every `intervalFrames` frames; the oldest snapshots are
+ * dropped once the compressed total exceeds `budgetBytes`.
+ */
+export class RewindBuffer {
+  private snapshots: RewindSnapshot[] = [];
+  private totalBytes = 0;
+
+  constructor(
+    private intervalFrames: number,
+    private budgetBytes: number
+  ) {}
+
+  isEnabled(): boolean {
+    return this.intervalFrames > 0 && this.budgetBytes > 0;
+  }
+
+  /**
+   * Whether a snapshot is due at the given frame
+   */
+  shouldCapture(frame: number): boolean {
+    return this.isEnabled() && frame % this.intervalFrames === 0;
+  }
+
+  /**
+   * Store a snapshot, evicting the oldest ones to stay within the memory budget
+   * @param frame Frame number the state belongs to
+   * @param state Serialized machine state
+   */
+  push(frame: number, state: string): void {
+    const data = zlib.deflateSync(state, { level: 1 });
+    this.snapshots.push({ frame, data });
+    this.totalBytes += data.length;
+
+    while (this.totalBytes > this.budgetBytes && this.snapshots.length > 1) {
+      this.totalBytes -= this.snapshots.shift()!.data.length;
+    }
+  }
+
+  /**
+   * Find the newest snapshot at or before the target frame (or the oldest one,
+   * if the target is further back than the buffer reaches) and drop everything after it
+   * @returns The snapshot's frame and serialized state, or undefined if the buffer is empty
+   */
+  rewindTo(targetFrame: number): { frame: number; state: string } | undefined {
+    if (this.snapshots.length === 0) {
+      return undefined;
+    }
+
+    let index = 0;
+    for (let i = this.snapshots.length - 1; i >= 0; i--) {
+      if (this.snapshots[i].frame <= targetFrame) {
+        index = i;
+        break;
+      }
+    }
+
+    for (const dropped of this.snapshots.splice(index + 1)) {
+      this.totalBytes -= dropped.data.length;
+    }
+
+    const snapshot = this.snapshots[index];
+    return { frame: snapshot.frame, state: zlib.inflateSync(snapshot.data).toString() };
+  }
+
+  /**
+   * Frame number of the oldest snapshot still in the buffer
+   */
+  oldestFrame(): number | undefined {
+    return this.snapshots[0]?.frame;
+  }
+
+  clear(): void {
+    this.snapshots = [];
+    this.totalBytes = 0;
+  }
+}
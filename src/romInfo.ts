@@ -0,0 +1,51 @@
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { crc32 } from './utils/crc32';
+import { RomInfo, RomMirroring } from './types';
+
+const ROM = require('./nes-core/rom');
+
+const HEADER_SIZE = 16;
+const TRAINER_SIZE = 512;
+
+/**
+ * Decode the header of a .nes file and hash its contents, without loading it into the core.
+ * Uses the core's own header parser, so a file that passes here has the sizes the core expects.
+ * @see https://www.nesdev.org/wiki/NES_2.0
+ */
+export function readRomInfo(romPath: string, data: Buffer = fs.readFileSync(romPath)): RomInfo {
+  const rom = new ROM(null);
+  rom.parseHeader(data.toString('latin1'));
+
+  let mirroring: RomMirroring = rom.mirroring ? 'vertical' : 'horizontal';
+  if (rom.fourScreen) {
+    mirroring = 'four-screen';
+  }
+  const romSize = (rom.trainer ? TRAINER_SIZE : 0) + rom.prgRomSize + rom.chrRomSize;
+  const romData = data.subarray(HEADER_SIZE);
+
+  return {
+    path: romPath,
+    fileSize: data.length,
+    format: rom.format,
+    mapper: rom.mapperType,
+    submapper: rom.submapper ?? undefined,
+    mapperName: rom.getMapperName(),
+    mapperSupported: rom.mapperSupported(),
+    prgRomSize: rom.prgRomSize,
+    chrRomSize: rom.chrRomSize,
+    prgRamSize: rom.prgRamSize,
+    prgNvramSize: rom.prgNvramSize,
+    chrRamSize: rom.chrRamSize,
+    chrNvramSize: rom.chrNvramSize,
+    mirroring,
+    battery: rom.batteryRam,
+    trainer: rom.trainer,
+    timing: rom.timing ?? undefined,
+    consoleType: rom.consoleType,
+    extraBytes: romData.length - romSize,
+    crc32: crc32(romData).toString(16).padStart(8, '0'),
+    sha1: crypto.createHash('sha1').update(romData).digest('hex'),
+    fileSha1: crypto.createHash('sha1').update(data).digest('hex')
+  };
+}
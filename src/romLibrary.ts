@@ -0,0 +1,354 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { RomLibraryEntry, RomLibraryFilter } from './types';
+import { readRomInfo } from './romInfo';
+import { listZipEntries, readZipEntry } from './utils/zip';
+import { log } from './utils/logger';
+
+// Separates an archive from the entry inside it in ROM paths, e.g. "roms/pack.zip#Game.nes"
+const ARCHIVE_SEPARATOR = '#';
+const INDEX_FILE = '.library.json';
+// Checked in this order when looking for a patch to apply automatically
+const PATCH_EXTENSIONS = ['.bps', '.ups', '.ips'];
+
+// A .nes or .zip file in roms/ and the ROMs found in it, re-read only when its size or mtime changes
+interface IndexedFile {
+  size: number;
+  mtimeMs: number;
+  roms: { name: string; path: string; hash: string }[];
+}
+
+// Details of a ROM, keyed by hash so they survive renames and moves
+interface IndexedRom {
+  title: string;
+  mapper?: number;
+  mapperName?: string;
+  mapperSupported?: boolean;
+  lastPlayed?: string;
+  error?: string;
+}
+
+interface LibraryIndex {
+  files: Record<string, IndexedFile>;
+  roms: Record<string, IndexedRom>;
+}
+
+/**
+ * The roms/ directory, created if missing
+ */
+export function getRomsDir(): string {
+  const romsDir = path.join(process.cwd(), 'roms');
+  if (!fs.existsSync(romsDir)) {
+    fs.mkdirSync(romsDir);
+    log.info('Created roms directory');
+  }
+  return romsDir;
+}
+
+/**
+ * Split "archive.zip#entry.nes" into the archive path and the entry name. Plain paths have no entry.
+ */
+export function splitRomPath(romPath: string): { filePath: string; entry?: string } {
+  const index = romPath.toLowerCase().indexOf(`.zip${ARCHIVE_SEPARATOR}`);
+  if (index === -1) {
+    return { filePath: romPath };
+  }
+  return {
+    filePath: romPath.slice(0, index + 4),
+    entry: romPath.slice(index + 5)
+  };
+}
+
+/**
+ * Read a ROM from a .nes file or from a zip archive. A zip path without an entry
+ * works when the archive holds exactly one .nes file.
+ */
+export function readRomFile(romPath: string): Buffer {
+  const { filePath, entry } = splitRomPath(romPath);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`ROM file not found: ${romPath}`);
+  }
+  if (entry === undefined && !isZip(filePath)) {
+    return fs.readFileSync(filePath);
+  }
+
+  const archive = fs.readFileSync(filePath);
+  const entries = listZipEntries(archive);
+  if (entry !== undefined) {
+    const match = entries.find(candidate => candidate.name === entry);
+    if (!match) {
+      throw new Error(`ROM file not found: ${entry} is not in ${filePath}`);
+    }
+    return readZipEntry(archive, match);
+  }
+
+  const roms = entries.filter(candidate => isNes(candidate.name));
+  if (roms.length !== 1) {
+    throw new Error(roms.length === 0
+      ? `No .nes file in ${filePath}`
+      : `${filePath} holds ${roms.length} ROMs; pick one with ${filePath}${ARCHIVE_SEPARATOR}<entry>: ${roms.map(rom => rom.name).join(', ')}`);
+  }
+  return readZipEntry(archive, roms[0]);
+}
+
+/**
+ * Whether a ROM path points at an existing file (or archive entry)
+ */
+export function romExists(romPath: string): boolean {
+  const { filePath, entry } = splitRomPath(romPath);
+  if (!fs.existsSync(filePath)) {
+    return false;
+  }
+  if (entry === undefined) {
+    return true;
+  }
+  try {
+    return listZipEntries(fs.readFileSync(filePath)).some(candidate => candidate.name === entry);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Scan roms/ (including subdirectories and zip archives) and return the matching ROMs.
+ * Files are only re-read when they change; the index is cached in roms/.library.json.
+ */
+export function listRomLibrary(filter: RomLibraryFilter = {}): RomLibraryEntry[] {
+  const index = loadIndex();
+  const files: Record<string, IndexedFile> = {};
+  const entries: RomLibraryEntry[] = [];
+
+  for (const filePath of findRomFiles(getRomsDir())) {
+    let indexed: IndexedFile;
+    try {
+      const stat = fs.statSync(filePath);
+      const cached = index.files[filePath];
+      indexed = cached && cached.size === stat.size && cached.mtimeMs === stat.mtimeMs
+        ? cached
+        : indexFile(filePath, stat, index);
+    } catch (error) {
+      log.warn(`Skipping ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+    files[filePath] = indexed;
+    for (const rom of indexed.roms) {
+      const details = index.roms[rom.hash] ?? { title: titleFromPath(rom.path) };
+      entries.push({ name: rom.name, path: rom.path, hash: rom.hash, ...details });
+    }
+  }
+
+  index.files = files;
+  saveIndex(index);
+
+  return sortEntries(entries.filter(entry => matchesFilter(entry, filter)), filter.sort ?? 'title');
+}
+
+/**
+ * Record that a ROM was just loaded, for sorting by last played. The hash is of the
+ * unpatched file, so patched plays still count for the library entry.
+ */
+export function recordRomPlayed(romPath: string): void {
+  const romHash = crypto.createHash('sha1').update(readRomFile(romPath)).digest('hex');
+  const index = loadIndex();
+  const rom = index.roms[romHash] ?? { title: titleFromPath(romPath) };
+  rom.lastPlayed = new Date().toISOString();
+  index.roms[romHash] = rom;
+  saveIndex(index);
+}
+
+/**
+ * Find a patch with the same name as a ROM: "Game.bps", "Game.ups" or "Game.ips" next to
+ * "Game.nes", or inside the same zip archive for ROMs in zips. Returns the first match.
+ */
+export function findRomPatch(romPath: string): string | undefined {
+  const { filePath, entry } = splitRomPath(romPath);
+  const baseName = (name: string) => path.basename(name, path.extname(name));
+  const candidates: string[] = [];
+  // A patch named after the archive belongs to every ROM in it, so it only counts when there is one
+  let archiveHoldsOneRom = entry === undefined;
+
+  if (entry !== undefined) {
+    const entryBase = entry.slice(0, entry.length - path.extname(entry).length);
+    try {
+      const entryNames = listZipEntries(fs.readFileSync(filePath)).map(candidate => candidate.name);
+      archiveHoldsOneRom = entryNames.filter(isNes).length === 1;
+      for (const ext of PATCH_EXTENSIONS) {
+        if (entryNames.includes(entryBase + ext)) {
+          candidates.push(`${filePath}${ARCHIVE_SEPARATOR}${entryBase}${ext}`);
+        }
+      }
+    } catch (error) {
+      log.warn(`Could not look for patches in ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  // Next to the ROM, named after the ROM itself or, for zips, the entry or (with a single ROM) the archive
+  const names = new Set([baseName(entry ?? filePath)]);
+  if (archiveHoldsOneRom) {
+    names.add(baseName(filePath));
+  }
+  for (const name of names) {
+    for (const ext of PATCH_EXTENSIONS) {
+      const candidate = path.join(path.dirname(filePath), name + ext);
+      if (fs.existsSync(candidate)) {
+        candidates.push(candidate);
+      }
+    }
+  }
+
+  if (candidates.length > 1) {
+    log.warn(`Found several patches for ${romPath}, applying ${candidates[0]}: ${candidates.join(', ')}`);
+  }
+  return candidates[0];
+}
+
+/**
+ * Rename an uploaded patch to match its uploaded ROM so it is applied automatically on load.
+ * Patches that can't be paired (no ROM, an unknown format, a zip of several ROMs) are deleted.
+ */
+export function pairUploadedPatch(romFile: string | undefined, patchFile: string): string {
+  const reject = (message: string): never => {
+    fs.unlinkSync(patchFile);
+    throw new Error(message);
+  };
+  const ext = path.extname(patchFile).toLowerCase();
+  if (!romFile) {
+    return reject('Upload a patch together with the ROM it applies to');
+  }
+  if (!PATCH_EXTENSIONS.includes(ext)) {
+    return reject(`Unsupported patch file: ${path.basename(patchFile)} (expected ${PATCH_EXTENSIONS.join(', ')})`);
+  }
+  if (isZip(romFile)) {
+    const romCount = listZipEntries(fs.readFileSync(romFile)).filter(candidate => isNes(candidate.name)).length;
+    if (romCount !== 1) {
+      return reject(`${path.basename(romFile)} holds ${romCount} ROMs; a patch can only be paired with a zip holding one`);
+    }
+  }
+  const pairedPath = path.join(path.dirname(romFile), path.basename(romFile, path.extname(romFile)) + ext);
+  if (pairedPath !== patchFile) {
+    fs.renameSync(patchFile, pairedPath);
+  }
+  log.info(`Paired patch ${path.basename(pairedPath)} with ${path.basename(romFile)}`);
+  return pairedPath;
+}
+
+function indexFile(filePath: string, stat: fs.Stats, index: LibraryIndex): IndexedFile {
+  log.debug(`Indexing ROM file: ${filePath}`);
+  const roms: IndexedFile['roms'] = [];
+
+  if (isZip(filePath)) {
+    const archive = fs.readFileSync(filePath);
+    for (const entry of listZipEntries(archive)) {
+      if (!isNes(entry.name)) {
+        continue;
+      }
+      const romPath = `${filePath}${ARCHIVE_SEPARATOR}${entry.name}`;
+      try {
+        roms.push(indexRom(romPath, readZipEntry(archive, entry), index));
+      } catch (error) {
+        log.warn(`Skipping ${romPath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  } else {
+    roms.push(indexRom(filePath, fs.readFileSync(filePath), index));
+  }
+
+  return { size: stat.size, mtimeMs: stat.mtimeMs, roms };
+}
+
+function indexRom(romPath: string, data: Buffer, index: LibraryIndex): IndexedFile['roms'][number] {
+  const hash = crypto.createHash('sha1').update(data).digest('hex');
+  const rom: IndexedRom = { title: titleFromPath(romPath), lastPlayed: index.roms[hash]?.lastPlayed };
+  try {
+    const info = readRomInfo(romPath, data);
+    rom.mapper = info.mapper;
+    rom.mapperName = info.mapperName;
+    rom.mapperSupported = info.mapperSupported;
+  } catch (error) {
+    rom.error = error instanceof Error ? error.message : String(error);
+  }
+  index.roms[hash] = rom;
+  return { name: path.basename(splitRomPath(romPath).entry ?? romPath), path: romPath, hash };
+}
+
+function findRomFiles(dir: string): string[] {
+  const found: string[] = [];
+  for (const dirent of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (dirent.name.startsWith('.')) {
+      continue;
+    }
+    const fullPath = path.join(dir, dirent.name);
+    if (dirent.isDirectory()) {
+      found.push(...findRomFiles(fullPath));
+    } else if (isNes(dirent.name) || isZip(dirent.name)) {
+      found.push(fullPath);
+    }
+  }
+  return found;
+}
+
+function matchesFilter(entry: RomLibraryEntry, filter: RomLibraryFilter): boolean {
+  if (filter.query) {
+    const query = filter.query.toLowerCase();
+    if (!entry.title.toLowerCase().includes(query) && !entry.path.toLowerCase().includes(query)) {
+      return false;
+    }
+  }
+  if (filter.mapper !== undefined && entry.mapper !== filter.mapper) {
+    return false;
+  }
+  if (filter.supported !== undefined && (entry.mapperSupported ?? false) !== filter.supported) {
+    return false;
+  }
+  return true;
+}
+
+function sortEntries(entries: RomLibraryEntry[], sort: RomLibraryFilter['sort']): RomLibraryEntry[] {
+  const byTitle = (a: RomLibraryEntry, b: RomLibraryEntry) =>
+    a.title.localeCompare(b.title, undefined, { sensitivity: 'base' }) || a.path.localeCompare(b.path);
+  if (sort === 'last_played') {
+    // Most recent first, then never-played ROMs by title
+    return entries.sort((a, b) => (b.lastPlayed ?? '').localeCompare(a.lastPlayed ?? '') || byTitle(a, b));
+  }
+  return entries.sort(byTitle);
+}
+
+// "roms/Super Mario Bros. (World).nes" -> "Super Mario Bros. (World)"
+function titleFromPath(romPath: string): string {
+  const name = path.basename(splitRomPath(romPath).entry ?? romPath);
+  return name.slice(0, name.length - path.extname(name).length);
+}
+
+function isNes(name: string): boolean {
+  return name.toLowerCase().endsWith('.nes');
+}
+
+function isZip(name: string): boolean {
+  return name.toLowerCase().endsWith('.zip');
+}
+
+function indexFilePath(): string {
+  return path.join(getRomsDir(), INDEX_FILE);
+}
+
+function loadIndex(): LibraryIndex {
+  const filePath = indexFilePath();
+  if (fs.existsSync(filePath)) {
+    try {
+      const index = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      return { files: index.files ?? {}, roms: index.roms ?? {} };
+    } catch (error) {
+      log.error(`Error reading ROM library index: ${filePath}`, error instanceof Error ? error.message : String(error));
+    }
+  }
+  return { files: {}, roms: {} };
+}
+
+function saveIndex(index: LibraryIndex): void {
+  const filePath = indexFilePath();
+  try {
+    fs.writeFileSync(filePath, JSON.stringify(index, null, 2));
+  } catch (error) {
+    log.error(`Error writing ROM library index: ${filePath}`, error instanceof Error ? error.message : String(error));
+  }
+}
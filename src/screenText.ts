@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ScreenTiles } from './types';
+import { visibleSprites } from './sprites';
+import { log } from './utils/logger';
+
+// Tile ID -> character, for rendering menus and dialogue as text
+export type TileMap = Record<number, string>;
+
+// Characters used in "chars" mode for tiles with no mapping and cells covered by a sprite
+const UNMAPPED_CHAR = '#';
+const SPRITE_CHAR = '@';
+
+function hex2(value: number): string {
+  return value.toString(16).toUpperCase().padStart(2, '0');
+}
+
+/**
+ * Expand a tile map spec. Keys are hex tile IDs ("24") or ranges ("0A-23");
+ * a range maps to consecutive characters of its value ("0A-23": "ABCDEFGHIJKLMNOPQRSTUVWXYZ").
+ */
+export function parseTileMap(spec: Record<string, string>): TileMap {
+  const map: TileMap = {};
+  for (const [key, value] of Object.entries(spec)) {
+    const match = /^(?:\$|0x)?([0-9a-f]{1,2})(?:-(?:\$|0x)?([0-9a-f]{1,2}))?$/i.exec(key.trim());
+    if (!match) {
+      throw new Error(`Invalid tile ID or range: ${key}`);
+    }
+    const first = parseInt(match[1], 16);
+    const last = match[2] !== undefined ? parseInt(match[2], 16) : first;
+    const chars = Array.from(value);
+    if (last < first) {
+      throw new Error(`Invalid tile range: ${key}`);
+    }
+    if (chars.length !== last - first + 1) {
+      throw new Error(`Tile ${key} needs ${last - first + 1} character(s), got "${value}"`);
+    }
+    chars.forEach((char, i) => {
+      map[first + i] = char;
+    });
+  }
+  return map;
+}
+
+/**
+ * Render the screen as text: a 32x30 grid of tile IDs (or mapped characters),
+ * with the cells covered by visible sprites marked, followed by the sprite list
+ * @param mode "tiles" shows hex tile IDs, "chars" uses the tile map
+ */
+export function renderScreenText(
+  screen: ScreenTiles,
+  options: { mode: 'tiles' | 'chars'; sprites: boolean; tileMap?: TileMap }
+): string {
+  const sprites = options.sprites ? visibleSprites(screen.sprites, screen.spriteHeight) : [];
+
+  // Sprite tile covering each grid cell (the lowest OAM index wins, as on hardware)
+  const spriteCells = new Map<number, number>();
+  for (const sprite of [...sprites].reverse()) {
+    for (let dy = 0; dy < screen.spriteHeight; dy += 8) {
+      const row = (sprite.y + dy + 4) >> 3;
+      const col = (sprite.x + 4) >> 3;
+      if (row < 30 && col < 32) {
+        spriteCells.set(row * 32 + col, screen.spriteHeight === 16 ? (sprite.tile & 0xfe) + dy / 8 : sprite.tile);
+      }
+    }
+  }
+
+  const lines: string[] = [`scroll x=${screen.scrollX} y=${screen.scrollY}`];
+  screen.tiles.forEach((tileRow, row) => {
+    const cells = tileRow.map((tile, col) => {
+      const spriteTile = spriteCells.get(row * 32 + col);
+      if (options.mode === 'chars') {
+        return spriteTile !== undefined ? SPRITE_CHAR : options.tileMap?.[tile] ?? UNMAPPED_CHAR;
+      }
+      return spriteTile !== undefined ? `*${hex2(spriteTile)}` : ` ${hex2(tile)}`;
+    });
+    lines.push(`${String(row).padStart(2, '0')}|${cells.join('')}`);
+  });
+
+  if (sprites.length > 0) {
+    lines.push('sprites (index tile x,y palette flags):');
+    for (const sprite of sprites) {
+      const flags = [sprite.flipH ? 'H' : '', sprite.flipV ? 'V' : '', sprite.behindBackground ? 'B' : ''].join('');
+      lines.push(`#${sprite.index} ${hex2(sprite.tile)} ${sprite.x},${sprite.y} p${sprite.palette}${flags ? ` ${flags}` : ''}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function tileMapFilePath(romHash: string): string {
+  return path.join(process.cwd(), 'tilemaps', `${romHash}.json`);
+}
+
+/**
+ * Load the tile map saved for a ROM (undefined if none was saved)
+ */
+export function loadTileMap(romHash: string): TileMap | undefined {
+  const filePath = tileMapFilePath(romHash);
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+  try {
+    return parseTileMap(JSON.parse(fs.readFileSync(filePath, 'utf-8')).map ?? {});
+  } catch (error) {
+    log.error(`Error reading tile map file: ${filePath}`, error instanceof Error ? error.message : String(error));
+    return undefined;
+  }
+}
+
+/**
+ * Save the tile map for a ROM, keyed by its hash
+ */
+export function saveTileMap(romHash: string, romPath: string, tileMap: TileMap): void {
+  const filePath = tileMapFilePath(romHash);
+  const tileMapsDir = path.dirname(filePath);
+  if (!fs.existsSync(tileMapsDir)) {
+    fs.mkdirSync(tileMapsDir);
+    log.info('Created tilemaps directory');
+  }
+  const map = Object.fromEntries(Object.entries(tileMap).map(([tile, char]) => [hex2(Number(tile)), char]));
+  fs.writeFileSync(filePath, JSON.stringify({ rom: path.basename(romPath), map }, null, 2));
+}
@@ -0,0 +1,45 @@
+import { EventStore, EventId, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * In-memory event store that lets Streamable HTTP clients resume a stream
+ * after reconnecting (via Last-Event-ID). Only the most recent events are
+ * kept, since tool results carry whole screenshots.
+ */
+export class InMemoryEventStore implements EventStore {
+  private events: { eventId: EventId; streamId: StreamId; message: JSONRPCMessage }[] = [];
+  private nextEventNumber = 0;
+
+  constructor(private maxEvents: number = 100) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${++this.nextEventNumber}`;
+    this.events.push({ eventId, streamId, message });
+    if (this.events.length > this.maxEvents) {
+      this.events.splice(0, this.events.length - this.maxEvents);
+    }
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.events.find(event => event.eventId === eventId)?.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const index = this.events.findIndex(event => event.eventId === lastEventId);
+    if (index === -1) {
+      return '';
+    }
+
+    const streamId = this.events[index].streamId;
+    for (const event of this.events.slice(index + 1)) {
+      if (event.streamId === streamId) {
+        await send(event.eventId, event.message);
+      }
+    }
+    return streamId;
+  }
+}
@@ -0,0 +1,130 @@
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createSessionWebApp, createSessionManagerFromEnv } from './web';
+import { InMemoryEventStore } from './eventStore';
+import { Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import http from 'http';
+import { log } from '../utils/logger';
+
+/**
+ * Send a JSON-RPC error response for requests that never reach a transport
+ */
+function sendJsonRpcError(res: Response, status: number, message: string): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null
+  });
+}
+
+export async function startHttpServer(port?: number): Promise<void> {
+  const httpPort = port || (process.env.SERVER_PORT ? parseInt(process.env.SERVER_PORT, 10) : 3001);
+
+  // Every MCP session gets its own emulator
+  const sessions = createSessionManagerFromEnv();
+  const app = createSessionWebApp(sessions);
+
+  // Store transports by session ID
+  const transports: Record<string, StreamableHTTPServerTransport> = {};
+
+  // Look up the transport for a request's Mcp-Session-Id header
+  const transportFor = (req: Request): StreamableHTTPServerTransport | undefined => {
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId !== 'string') {
+      return undefined;
+    }
+    const transport = transports[sessionId];
+    if (transport) {
+      sessions.touch(sessionId);
+    }
+    return transport;
+  };
+
+  // POST carries client JSON-RPC messages; an initialize request without a session starts one
+  app.post('/mcp', async (req: Request, res: Response) => {
+    log.info('Received POST request to /mcp');
+
+    try {
+      const existing = transportFor(req);
+      if (existing) {
+        await existing.handleRequest(req, res, req.body);
+        return;
+      }
+
+      if (req.headers['mcp-session-id']) {
+        log.error(`No active transport found for session ID: ${req.headers['mcp-session-id']}`);
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+
+      if (!isInitializeRequest(req.body)) {
+        log.error('Received non-initialize request without a session ID');
+        sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      if (sessions.isFull()) {
+        log.warn('Rejecting initialize request: maximum number of sessions reached');
+        sendJsonRpcError(res, 503, 'Too many sessions');
+        return;
+      }
+
+      // The session ID is chosen up front so the session's server exists before initialize is handled
+      const sessionId = randomUUID();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => sessionId,
+        eventStore: new InMemoryEventStore(),
+        onsessionclosed: (closedSessionId) => {
+          log.info(`Session ${closedSessionId} deleted by client`);
+        }
+      });
+      const session = sessions.create(sessionId, transport);
+      transports[sessionId] = transport;
+
+      transport.onclose = () => {
+        log.info(`Streamable HTTP transport closed for session ${sessionId}`);
+        delete transports[sessionId];
+        sessions.remove(sessionId);
+      };
+
+      await session.server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+      log.info(`Initialized Streamable HTTP session with ID: ${sessionId}`);
+    } catch (error) {
+      log.error('Error handling request:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    }
+  });
+
+  // GET opens (or resumes, with Last-Event-ID) the server-to-client SSE stream; DELETE ends the session
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    log.info(`Received ${req.method} request to /mcp`);
+
+    const transport = transportFor(req);
+    if (!transport) {
+      res.status(req.headers['mcp-session-id'] ? 404 : 400).send('Invalid or missing session ID');
+      return;
+    }
+
+    try {
+      await transport.handleRequest(req, res);
+    } catch (error) {
+      log.error('Error handling request:', error);
+      if (!res.headersSent) {
+        res.status(500).send('Error handling request');
+      }
+    }
+  };
+  app.get('/mcp', handleSessionRequest);
+  app.delete('/mcp', handleSessionRequest);
+
+  // Start the Express server
+  const httpServer = http.createServer(app);
+  httpServer.listen(httpPort, () => {
+    log.info(`NES MCP Server (Streamable HTTP) listening on http://localhost:${httpPort}/mcp`);
+    log.info(`NES Web UI available at http://localhost:${httpPort}/emulator`);
+  });
+}
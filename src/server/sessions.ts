@@ -0,0 +1,114 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { NESEmulator } from '../nes';
+import { EmulatorService } from '../emulatorService';
+import { createNESServer } from './server';
+import { log } from '../utils/logger';
+
+export interface EmulatorSession {
+  id: string;
+  emulatorService: EmulatorService;
+  server: McpServer;
+  transport: Transport;
+  createdAt: number;
+  lastActivity: number;
+}
+
+export interface SessionManagerOptions {
+  maxSessions: number;
+  // Sessions with no requests for this long are closed (0 disables the timeout)
+  idleTimeoutMs: number;
+}
+
+/**
+ * Gives every MCP session its own emulator, so concurrent clients can't
+ * trample each other's game. Sessions are torn down when their transport
+ * closes or when they sit idle for too long.
+ */
+export class SessionManager {
+  private sessions: Map<string, EmulatorSession> = new Map();
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(private options: SessionManagerOptions) {
+    if (options.idleTimeoutMs > 0) {
+      this.sweepTimer = setInterval(() => this.closeIdleSessions(), Math.min(options.idleTimeoutMs, 60_000));
+      this.sweepTimer.unref();
+    }
+  }
+
+  isFull(): boolean {
+    return this.sessions.size >= this.options.maxSessions;
+  }
+
+  /**
+   * Create a session with a fresh emulator and MCP server for a transport.
+   * The caller connects the transport to `session.server`.
+   */
+  create(id: string, transport: Transport): EmulatorSession {
+    if (this.isFull()) {
+      throw new Error(`Maximum number of sessions (${this.options.maxSessions}) reached`);
+    }
+
+    const emulatorService = new EmulatorService(new NESEmulator());
+    const now = Date.now();
+    const session: EmulatorSession = {
+      id,
+      emulatorService,
+      server: createNESServer(emulatorService),
+      transport,
+      createdAt: now,
+      lastActivity: now
+    };
+    this.sessions.set(id, session);
+    log.info(`Created emulator session ${id} (${this.sessions.size}/${this.options.maxSessions})`);
+    return session;
+  }
+
+  get(id: string): EmulatorSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  /**
+   * Record activity on a session so the idle timeout starts over
+   */
+  touch(id: string): void {
+    const session = this.sessions.get(id);
+    if (session) {
+      session.lastActivity = Date.now();
+    }
+  }
+
+  /**
+   * Forget a session and release its emulator. Safe to call more than once.
+   */
+  remove(id: string): void {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(id);
+    session.emulatorService.shutdown();
+    log.info(`Removed emulator session ${id}`);
+  }
+
+  list(): { id: string; romPath: string | null; createdAt: string; lastActivity: string }[] {
+    return Array.from(this.sessions.values()).map(session => ({
+      id: session.id,
+      romPath: session.emulatorService.getRomPath() || null,
+      createdAt: new Date(session.createdAt).toISOString(),
+      lastActivity: new Date(session.lastActivity).toISOString()
+    }));
+  }
+
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - this.options.idleTimeoutMs;
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.lastActivity < cutoff) {
+        log.info(`Closing idle session ${session.id}`);
+        // remove() is idempotent, so it doesn't matter that closing also fires onclose
+        session.transport.close().catch(error => log.error(`Error closing idle session ${session.id}:`, error));
+        this.remove(session.id);
+      }
+    }
+  }
+}
@@ -1,40 +1,15 @@
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
-import { NESEmulator } from '../nes';
-import { EmulatorService } from '../emulatorService';
-import { createNESServer } from './server';
-import express, { Request, Response } from 'express';
-import path from 'path';
-import fs from 'fs';
+import { createSessionWebApp, createSessionManagerFromEnv } from './web';
+import { Request, Response } from 'express';
 import http from 'http';
-import multer from 'multer';
-import { setupWebUI, setupRomSelectionUI } from '../ui';
 import { log } from '../utils/logger';
 
 export async function startSseServer(port?: number): Promise<void> {
   const ssePort = port || (process.env.SERVER_PORT ? parseInt(process.env.SERVER_PORT, 10) : 3001);
 
-  const emulator = new NESEmulator();
-  const emulatorService = new EmulatorService(emulator);
-  const server = createNESServer(emulatorService);
-
-  const app = express();
-
-  app.use(express.json());
-
-  // Configure multer for ROM uploads
-  const storage = multer.diskStorage({
-    destination: (req, file, cb) => {
-      const romsDir = path.join(process.cwd(), 'roms');
-      if (!fs.existsSync(romsDir)) {
-        fs.mkdirSync(romsDir);
-      }
-      cb(null, romsDir);
-    },
-    filename: (req, file, cb) => {
-      cb(null, file.originalname);
-    }
-  });
-  const upload = multer({ storage });
+  // Every MCP session gets its own emulator
+  const sessions = createSessionManagerFromEnv();
+  const app = createSessionWebApp(sessions);
 
   // Store transports by session ID
   const transports: Record<string, SSEServerTransport> = {};
@@ -43,17 +18,25 @@ export async function startSseServer(port?: number): Promise<void> {
   app.get('/mcp', async (req: Request, res: Response) => {
     log.info('Received GET request to /mcp (establishing SSE stream)');
 
+    if (sessions.isFull()) {
+      log.warn('Rejecting SSE stream: maximum number of sessions reached');
+      res.status(503).send('Too many sessions');
+      return;
+    }
+
     try {
       const transport = new SSEServerTransport('/messages', res);
       const sessionId = transport.sessionId;
+      const session = sessions.create(sessionId, transport);
       transports[sessionId] = transport;
 
       transport.onclose = () => {
         log.info(`SSE transport closed for session ${sessionId}`);
         delete transports[sessionId];
+        sessions.remove(sessionId);
       };
 
-      await server.connect(transport);
+      await session.server.connect(transport);
       log.info(`Established SSE stream with session ID: ${sessionId}`);
     } catch (error) {
       log.error('Error establishing SSE stream:', error);
@@ -82,6 +65,8 @@ export async function startSseServer(port?: number): Promise<void> {
       return;
     }
 
+    sessions.touch(sessionId);
+
     try {
       await transport.handlePostMessage(req, res, req.body);
     } catch (error) {
@@ -92,35 +77,6 @@ export async function startSseServer(port?: number): Promise<void> {
     }
   });
 
-  // Set up ROM selection UI
-  setupRomSelectionUI(app, emulatorService);
-
-  // Handle ROM upload
-  app.post('/upload', upload.single('rom'), (req, res) => {
-    res.redirect('/');
-  });
-
-  // Handle ROM selection
-  app.get('/nes', (req, res) => {
-    const romPath = req.query.rom as string;
-
-    if (!romPath || !fs.existsSync(romPath)) {
-      res.redirect('/');
-      return;
-    }
-
-    try {
-      emulatorService.loadRom(romPath);
-      res.redirect('/emulator');
-    } catch (error) {
-      log.error(`Error loading ROM: ${error}`, error);
-      res.redirect('/');
-    }
-  });
-
-  // Set up web UI
-  setupWebUI(app, emulatorService);
-
   // Start the Express server
   const httpServer = http.createServer(app);
   httpServer.listen(ssePort, () => {
@@ -3,13 +3,12 @@ import { NESEmulator } from '../nes';
 import { EmulatorService } from '../emulatorService';
 import { createNESServer } from './server';
 import * as path from 'path';
-import * as fs from 'fs';
 import open from 'open';
 import express, { Request, Response } from 'express';
 import http from 'http';
-import multer from 'multer';
-import { setupWebUI, setupRomSelectionUI } from '../ui';
+import { setupWebUI, setupRomSelectionUI, setupRomUpload } from '../ui';
 import { log } from '../utils/logger';
+import { romExists } from '../romLibrary';
 
 export async function startStdioServer(): Promise<void> {
   const emulator = new NESEmulator();
@@ -19,12 +18,12 @@ export async function startStdioServer(): Promise<void> {
   // Optionally auto-load ROM from environment variable
   const romPath = process.env.ROM_PATH;
   if (romPath) {
-    if (!fs.existsSync(romPath)) {
+    if (!romExists(romPath)) {
       log.error(`ROM file not found: ${romPath}`);
       process.exit(1);
     }
     try {
-      emulatorService.loadRom(romPath);
+      await emulatorService.loadRom(romPath);
       log.info(`ROM loaded: ${path.basename(romPath)}`);
     } catch (error) {
       log.error(`Error loading ROM: ${error}`);
@@ -40,32 +39,15 @@ export async function startStdioServer(): Promise<void> {
 
   app.use(express.json());
 
-  // Configure multer for ROM uploads
-  const storage = multer.diskStorage({
-    destination: (req, file, cb) => {
-      const romsDir = path.join(process.cwd(), 'roms');
-      if (!fs.existsSync(romsDir)) {
-        fs.mkdirSync(romsDir);
-      }
-      cb(null, romsDir);
-    },
-    filename: (req, file, cb) => {
-      cb(null, file.originalname);
-    }
-  });
-  const upload = multer({ storage });
-
   // Set up web UI routes
-  setupWebUI(app, emulatorService);
+  setupWebUI(app, () => emulatorService);
   setupRomSelectionUI(app, emulatorService);
 
   // Handle ROM upload
-  app.post('/upload', upload.single('rom'), (req: Request, res: Response) => {
-    res.redirect('/');
-  });
+  setupRomUpload(app);
 
   // Handle ROM selection from UI
-  app.get('/nes', (req: Request, res: Response) => {
+  app.get('/nes', async (req: Request, res: Response) => {
     const relativeRomPath = req.query.rom as string;
 
     if (!relativeRomPath) {
@@ -77,14 +59,14 @@ export async function startStdioServer(): Promise<void> {
     const absoluteRomPath = path.resolve(process.cwd(), relativeRomPath);
     log.info(`[stdio /nes] Resolved path: ${absoluteRomPath}`);
 
-    if (!fs.existsSync(absoluteRomPath)) {
+    if (!romExists(absoluteRomPath)) {
       log.error(`[stdio /nes] ROM file not found: ${absoluteRomPath}`);
       res.status(404).send(`ROM not found: ${relativeRomPath}`);
       return;
     }
 
     try {
-      emulatorService.loadRom(absoluteRomPath);
+      await emulatorService.loadRom(absoluteRomPath);
       log.info(`[stdio /nes] ROM loaded: ${absoluteRomPath}`);
       res.redirect('/emulator');
     } catch (error) {
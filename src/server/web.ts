@@ -0,0 +1,76 @@
+import { NESEmulator } from '../nes';
+import { EmulatorService } from '../emulatorService';
+import { SessionManager } from './sessions';
+import express, { Request, Response } from 'express';
+import { setupWebUI, setupRomSelectionUI, setupRomUpload } from '../ui';
+import { log } from '../utils/logger';
+import { envInteger } from '../utils/env';
+import { romExists } from '../romLibrary';
+
+/**
+ * Create the Express app shared by the HTTP-based MCP transports (SSE and
+ * Streamable HTTP): ROM upload, ROM selection and the web UI. The web UI has an
+ * emulator of its own and can also watch any MCP session's emulator via ?session=<id>.
+ */
+export function createSessionWebApp(sessions: SessionManager): express.Application {
+  const webEmulatorService = new EmulatorService(new NESEmulator());
+
+  // Resolve the emulator for a web request from its ?session= parameter
+  const resolveEmulator = (req: Request): EmulatorService | undefined => {
+    const sessionId = req.query.session;
+    if (typeof sessionId !== 'string' || !sessionId) {
+      return webEmulatorService;
+    }
+    return sessions.get(sessionId)?.emulatorService;
+  };
+
+  const app = express();
+
+  app.use(express.json());
+
+  // Set up ROM selection UI
+  setupRomSelectionUI(app, webEmulatorService);
+
+  // Handle ROM upload
+  setupRomUpload(app);
+
+  // Handle ROM selection
+  app.get('/nes', async (req, res) => {
+    const romPath = req.query.rom as string;
+    const sessionId = req.query.session;
+    const sessionQuery = typeof sessionId === 'string' && sessionId ? `?session=${encodeURIComponent(sessionId)}` : '';
+
+    if (!romPath || !romExists(romPath)) {
+      res.redirect(`/${sessionQuery}`);
+      return;
+    }
+
+    const emulatorService = resolveEmulator(req);
+    if (!emulatorService) {
+      res.status(404).send('Session not found');
+      return;
+    }
+
+    try {
+      await emulatorService.loadRom(romPath);
+      res.redirect(`/emulator${sessionQuery}`);
+    } catch (error) {
+      log.error(`Error loading ROM: ${error}`, error);
+      res.redirect(`/${sessionQuery}`);
+    }
+  });
+
+  // Set up web UI
+  setupWebUI(app, resolveEmulator, () => sessions.list());
+
+  return app;
+}
+
+/**
+ * Read the session limits shared by the HTTP-based transports from the environment
+ */
+export function createSessionManagerFromEnv(): SessionManager {
+  const maxSessions = envInteger('MAX_SESSIONS', 4, 1);
+  const idleTimeoutSeconds = envInteger('SESSION_IDLE_TIMEOUT', 1800, 0);
+  return new SessionManager({ maxSessions, idleTimeoutMs: idleTimeoutSeconds * 1000 });
+}
@@ -0,0 +1,55 @@
+import { OamSprite, SpriteInfo, SpriteGroup } from './types';
+
+/**
+ * Keep the sprites that are on screen (OAM Y of $EF-$FF hides a sprite) and add their size
+ * @param spriteHeight 8 for 8x8 sprites, 16 for 8x16
+ */
+export function visibleSprites(sprites: OamSprite[], spriteHeight: number): SpriteInfo[] {
+  return sprites
+    .filter(sprite => sprite.y < 240)
+    .map(sprite => ({ ...sprite, width: 8, height: spriteHeight }));
+}
+
+function adjacent(a: SpriteInfo, b: SpriteInfo, maxGap: number): boolean {
+  return a.x <= b.x + b.width + maxGap && b.x <= a.x + a.width + maxGap &&
+    a.y <= b.y + b.height + maxGap && b.y <= a.y + a.height + maxGap;
+}
+
+/**
+ * Group sprites whose boxes touch or overlap (or are at most maxGap pixels apart)
+ * into metasprites with a bounding box
+ */
+export function groupSprites(sprites: SpriteInfo[], maxGap: number = 0): SpriteGroup[] {
+  // Union-find over the sprite list
+  const parent = sprites.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < sprites.length; i++) {
+    for (let j = i + 1; j < sprites.length; j++) {
+      if (adjacent(sprites[i], sprites[j], maxGap)) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const members = new Map<number, SpriteInfo[]>();
+  sprites.forEach((sprite, i) => {
+    const root = find(i);
+    members.set(root, [...(members.get(root) ?? []), sprite]);
+  });
+
+  return Array.from(members.values()).map(group => {
+    const left = Math.min(...group.map(sprite => sprite.x));
+    const top = Math.min(...group.map(sprite => sprite.y));
+    const right = Math.max(...group.map(sprite => sprite.x + sprite.width));
+    const bottom = Math.max(...group.map(sprite => sprite.y + sprite.height));
+    return {
+      sprites: group.map(sprite => sprite.index),
+      x: left,
+      y: top,
+      width: right - left,
+      height: bottom - top,
+      palettes: Array.from(new Set(group.map(sprite => sprite.palette))).sort()
+    };
+  });
+}
@@ -1,14 +1,86 @@
 import {
   CallToolResult,
-  TextContent
+  TextContent,
+  ImageContent,
+  AudioContent
 } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
-import { NESButton } from './types';
-import { EmulatorService } from './emulatorService';
+import { NESButton, MemoryRegion, ScreenshotOptions, ScreenshotToolOptions, WaitCondition } from './types';
+import { EmulatorService, InputSequenceResult } from './emulatorService';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import * as fs from 'fs';
-import * as path from 'path';
 import { log } from './utils/logger';
+import { parseAddress, formatAddress, hexDump, decodeValues } from './utils/memory';
+import { listRomLibrary } from './romLibrary';
+import { MAX_SCREENSHOT_QUALITY, MAX_SCREENSHOT_SCALE, SCREENSHOT_FORMATS } from './utils/screenshot';
+
+const playerSchema = z.union([z.literal(1), z.literal(2)]).optional().default(1).describe('Controller port to use (1 or 2)');
+
+const inputStepSchema = z.object({
+  buttons: z.array(z.nativeEnum(NESButton)).describe('Buttons held during this step (empty to just wait)'),
+  frames: z.number().int().positive().describe('Number of frames to hold the buttons (or wait)'),
+  release_frames: z.number().int().nonnegative().optional().describe('Frames to advance after releasing the buttons (default 1 when buttons are held, so repeated steps are separate presses; 0 merges them)'),
+  screenshot: z.boolean().optional().describe('Capture the screen after this step')
+});
+
+// Per-call screenshot overrides shared by the screen-returning tools (defaults come from SCREENSHOT_* env vars)
+const screenshotSchema = {
+  scale: z.number().int().min(1).max(MAX_SCREENSHOT_SCALE).optional().describe('Integer upscale factor (nearest-neighbour)'),
+  crop_overscan: z.boolean().optional().describe('Crop the top and bottom 8 lines'),
+  grayscale: z.boolean().optional().describe('Return a grayscale image'),
+  format: z.enum(SCREENSHOT_FORMATS).optional().describe('Image encoding'),
+  quality: z.number().int().min(1).max(MAX_SCREENSHOT_QUALITY).optional().describe('JPEG/WebP quality'),
+  include_image: z.boolean().optional().describe('Set to false to skip the image and only get the frame number')
+};
+
+const screenRegionSchema = {
+  x: z.number().int().min(0).max(255).describe('Left edge in pixels'),
+  y: z.number().int().min(0).max(239).describe('Top edge in pixels'),
+  width: z.number().int().min(1).max(256).describe('Width in pixels'),
+  height: z.number().int().min(1).max(240).describe('Height in pixels')
+};
+
+const waitConditionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('ram'),
+    address: z.union([z.number().int().nonnegative(), z.string()]).describe('CPU address, as a number or hex string like "$0075"'),
+    op: z.enum(['equals', 'not_equals', 'crosses']).describe('equals/not_equals compare with value; crosses fires when the byte moves past value in either direction'),
+    value: z.number().int().min(0).max(255)
+  }),
+  z.object({
+    type: z.literal('screen_change')
+  }),
+  z.object({
+    type: z.literal('screen_static'),
+    frames: z.number().int().positive().describe('Number of consecutive unchanged frames')
+  }),
+  z.object({
+    type: z.literal('region_hash'),
+    ...screenRegionSchema,
+    hash: z.string().describe('Reference hash from get_region_hash')
+  })
+]);
+
+function toScreenshotOptions(args: ScreenshotToolOptions): Partial<ScreenshotOptions> {
+  return {
+    scale: args.scale,
+    cropOverscan: args.crop_overscan,
+    grayscale: args.grayscale,
+    format: args.format,
+    quality: args.quality,
+    includeImage: args.include_image
+  };
+}
+
+function inputSequenceContent(result: InputSequenceResult): CallToolResult['content'] {
+  const content: CallToolResult['content'] = [];
+  result.screenshots.forEach(({ step, screen }) => {
+    content.push({ type: 'text', text: `Step ${step}` });
+    content.push(screen);
+  });
+  content.push({ type: 'text', text: `Final screen after ${result.framesElapsed} frames` });
+  content.push(result.screen);
+  return content;
+}
 
 export function registerNESTools(server: McpServer, emulatorService: EmulatorService): void {
   // Register button press tools
@@ -17,39 +89,205 @@ export function registerNESTools(server: McpServer, emulatorService: EmulatorSer
       `press_${button.toLowerCase()}`,
       `Press the ${button} button on the NES controller`,
       {
-        duration_frames: z.number().int().positive().optional().default(25).describe('Number of frames to hold the button')
+        duration_frames: z.number().int().positive().optional().default(25).describe('Number of frames to hold the button'),
+        player: playerSchema,
+        ...screenshotSchema
       },
-      async ({ duration_frames }): Promise<CallToolResult> => {
-        emulatorService.pressButton(button, duration_frames);
-        const screen = emulatorService.getScreen();
+      async ({ duration_frames, player, ...screenshot }): Promise<CallToolResult> => {
+        const screen = await emulatorService.pressButton(button, duration_frames, player, toScreenshotOptions(screenshot));
         return { content: [screen] };
       }
     );
   });
 
+  // Register press_buttons tool (simultaneous chord, e.g. RIGHT+B+A)
+  server.tool(
+    'press_buttons',
+    'Hold several NES controller buttons at the same time',
+    {
+      buttons: z.array(z.nativeEnum(NESButton)).min(1).describe('Buttons to hold together, e.g. ["RIGHT", "B", "A"]'),
+      duration_frames: z.number().int().positive().optional().default(25).describe('Number of frames to hold the buttons'),
+      player: playerSchema,
+      ...screenshotSchema
+    },
+    async ({ buttons, duration_frames, player, ...screenshot }): Promise<CallToolResult> => {
+      const screen = await emulatorService.pressButtons(buttons, duration_frames, player, toScreenshotOptions(screenshot));
+      return { content: [screen] };
+    }
+  );
+
+  // Register execute_input_sequence tool
+  server.tool(
+    'execute_input_sequence',
+    'Run a frame-timed timeline of button presses in one call and return the final screen',
+    {
+      steps: z.array(inputStepSchema).min(1).describe('Timeline of input steps, executed in order'),
+      player: playerSchema
+    },
+    async ({ steps, player }): Promise<CallToolResult> => {
+      const result = await emulatorService.executeInputSequence(steps, player);
+      return { content: inputSequenceContent(result) };
+    }
+  );
+
+  // Register record_clip tool
+  server.tool(
+    'record_clip',
+    'Run N frames (optionally driven by an input sequence) and return every Kth frame as an animated GIF or APNG',
+    {
+      frames: z.number().int().positive().max(36000).optional().describe('Frames to run (default: the length of the input sequence)'),
+      every: z.number().int().min(1).max(60).default(2).describe('Capture every Nth frame'),
+      steps: z.array(inputStepSchema).optional().describe('Input timeline to play during the clip'),
+      player: playerSchema,
+      format: z.enum(['gif', 'apng']).default('gif').describe('Animation format'),
+      scale: z.number().int().min(1).max(4).default(1).describe('Integer upscale factor (nearest-neighbour)'),
+      path: z.string().optional().describe('Also save the animation to this path')
+    },
+    async ({ frames, every, steps, player, format, scale, path }): Promise<CallToolResult> => {
+      const { data, mimeType, info } = await emulatorService.recordClip({ frames, every, steps, player, format, scale, path });
+      const clip: ImageContent = {
+        type: 'image',
+        data: data.toString('base64'),
+        mimeType
+      };
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify(info)
+      };
+      return { content: [clip, responseText] };
+    }
+  );
+
+  // Register save_macro tool
+  server.tool(
+    'save_macro',
+    'Save an input timeline as a named macro that can be replayed with run_macro. Macros are saved to disk and shared by all sessions',
+    {
+      name: z.string().min(1).describe('Name of the macro (overwrites an existing macro with the same name)'),
+      steps: z.array(inputStepSchema).min(1).describe('Timeline of input steps, executed in order')
+    },
+    async ({ name, steps }): Promise<CallToolResult> => {
+      emulatorService.saveMacro(name, steps);
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify({ name, steps: steps.length })
+      };
+      return { content: [responseText] };
+    }
+  );
+
+  // Register run_macro tool
+  server.tool(
+    'run_macro',
+    'Replay a saved input macro and return the final screen',
+    {
+      name: z.string().min(1).describe('Name of the macro to run'),
+      player: playerSchema
+    },
+    async ({ name, player }): Promise<CallToolResult> => {
+      const result = await emulatorService.runMacro(name, player);
+      return { content: inputSequenceContent(result) };
+    }
+  );
+
+  // Register list_macros tool
+  server.tool(
+    'list_macros',
+    'List saved input macros',
+    {},
+    async (): Promise<CallToolResult> => {
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify(emulatorService.listMacros())
+      };
+      return { content: [responseText] };
+    }
+  );
+
+  // Register delete_macro tool
+  server.tool(
+    'delete_macro',
+    'Delete a saved input macro',
+    {
+      name: z.string().min(1).describe('Name of the macro to delete')
+    },
+    async ({ name }): Promise<CallToolResult> => {
+      const deleted = emulatorService.deleteMacro(name);
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify({ name, deleted })
+      };
+      return { content: [responseText] };
+    }
+  );
+
   // Register wait_frames tool
   server.tool(
     'wait_frames',
     'Wait for a specified number of frames',
     {
-      duration_frames: z.number().int().positive().describe('Number of frames to wait').default(100)
+      duration_frames: z.number().int().positive().describe('Number of frames to wait').default(100),
+      ...screenshotSchema
     },
-    async ({ duration_frames }): Promise<CallToolResult> => {
-      const screen = emulatorService.waitFrames(duration_frames);
+    async ({ duration_frames, ...screenshot }): Promise<CallToolResult> => {
+      const screen = await emulatorService.waitFrames(duration_frames, toScreenshotOptions(screenshot));
       return { content: [screen] };
     }
   );
 
+  // Register wait_until tool
+  server.tool(
+    'wait_until',
+    'Advance frames until any of the conditions holds (or max_frames is reached) and report which one fired, how many frames elapsed and the screen',
+    {
+      conditions: z.array(waitConditionSchema).min(1).describe('Conditions to wait for; the first one that holds ends the wait'),
+      max_frames: z.number().int().positive().optional().default(600).describe('Give up after this many frames'),
+      ...screenshotSchema
+    },
+    async ({ conditions, max_frames, ...screenshot }): Promise<CallToolResult> => {
+      const parsed: WaitCondition[] = conditions.map(condition =>
+        condition.type === 'ram' ? { ...condition, address: parseAddress(condition.address) } : condition
+      );
+      const { result, screen } = await emulatorService.waitUntil(parsed, max_frames, toScreenshotOptions(screenshot));
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify(result)
+      };
+      return { content: [screen, responseText] };
+    }
+  );
+
+  // Register get_region_hash tool
+  server.tool(
+    'get_region_hash',
+    'Hash the pixels in a rectangle of the current screen, for use as a wait_until region_hash reference',
+    screenRegionSchema,
+    async (region): Promise<CallToolResult> => {
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify({ ...region, hash: emulatorService.getRegionHash(region) })
+      };
+      return { content: [responseText] };
+    }
+  );
+
   // Register load ROM tool
   server.tool(
     'load_rom',
-    'Load a NES ROM file',
+    'Load a NES ROM file, or a ROM inside a zip archive, optionally applying IPS/BPS/UPS patches in memory',
     {
-      romPath: z.string().describe('Path to the .nes ROM file')
+      romPath: z.string().describe('Path to the .nes ROM file, or "<archive>.zip#<entry>" as listed by list_roms'),
+      patches: z.array(z.string()).optional().describe('IPS, BPS or UPS patch files to apply in order (the ROM file is not modified)'),
+      auto_patch: z.boolean().default(true).describe('Without patches, apply a patch with the same name as the ROM (e.g. Game.ips next to Game.nes) if there is one')
     },
-    async ({ romPath }): Promise<CallToolResult> => {
-      const screen = emulatorService.loadRom(romPath);
-      return { content: [screen] };
+    async ({ romPath, patches, auto_patch }): Promise<CallToolResult> => {
+      const screen = await emulatorService.loadRom(romPath, { patches, autoPatch: auto_patch });
+      const { format, mapper, submapper, mapperName, timing } = emulatorService.getRomInfo();
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify({ format, mapper, submapper, mapperName, timing, patches: emulatorService.getRomPatches() })
+      };
+      return { content: [screen, responseText] };
     }
   );
 
@@ -57,13 +295,510 @@ export function registerNESTools(server: McpServer, emulatorService: EmulatorSer
   server.tool(
     'get_screen',
     'Get the current NES screen (advances one frame)',
+    {
+      ...screenshotSchema
+    },
+    async (screenshot): Promise<CallToolResult> => {
+      const screen = await emulatorService.advanceFrameAndGetScreen(toScreenshotOptions(screenshot));
+      return { content: [screen] };
+    }
+  );
+
+  // Register get_screen_text tool
+  server.tool(
+    'get_screen_text',
+    'Get the screen as text: a 32x30 grid of background tile IDs from the PPU nametables, with sprite-covered cells marked "*" and a list of sprites. In "chars" mode tiles are shown through the ROM\'s tile map (see set_tile_map), "#" for unmapped tiles and "@" for sprites',
+    {
+      mode: z.enum(['tiles', 'chars']).optional().describe('tiles: hex tile IDs; chars: characters from the tile map (default when the ROM has one)'),
+      sprites: z.boolean().optional().default(true).describe('Overlay sprites from OAM and list them')
+    },
+    async ({ mode, sprites }): Promise<CallToolResult> => {
+      const responseText: TextContent = {
+        type: 'text',
+        text: emulatorService.getScreenText(mode, sprites)
+      };
+      return { content: [responseText] };
+    }
+  );
+
+  // Register get_sprites tool
+  server.tool(
+    'get_sprites',
+    'List the visible sprites from OAM with position, size, tile, palette, flip flags and priority; optionally group adjacent sprites into metasprites with bounding boxes',
+    {
+      group: z.boolean().optional().default(false).describe('Also group touching/overlapping sprites into metasprites'),
+      max_gap: z.number().int().nonnegative().optional().default(0).describe('Largest gap in pixels between sprites of the same group')
+    },
+    async ({ group, max_gap }): Promise<CallToolResult> => {
+      const result = emulatorService.getSprites(group, max_gap);
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify(result)
+      };
+      return { content: [responseText] };
+    }
+  );
+
+  // Register get_nametables tool
+  server.tool(
+    'get_nametables',
+    'Render all four PPU nametables ($2000 top-left to $2C00 bottom-right) as a PNG, with the visible scroll window outlined',
+    {
+      scale: z.number().int().min(1).max(4).optional().default(1).describe('Integer upscale factor')
+    },
+    async ({ scale }): Promise<CallToolResult> => {
+      const png = await emulatorService.renderPpuView('nametables', { scale });
+      return { content: [{ type: 'image', data: png.toString('base64'), mimeType: 'image/png' }] };
+    }
+  );
+
+  // Register get_pattern_tables tool
+  server.tool(
+    'get_pattern_tables',
+    'Render both PPU pattern tables ($0000 left, $1000 right) as a PNG using one of the current palettes',
+    {
+      palette: z.number().int().min(0).max(7).optional().default(0).describe('Palette to color the tiles with: 0-3 background, 4-7 sprites'),
+      scale: z.number().int().min(1).max(8).optional().default(2).describe('Integer upscale factor')
+    },
+    async ({ palette, scale }): Promise<CallToolResult> => {
+      const png = await emulatorService.renderPpuView('pattern_tables', { palette, scale });
+      return { content: [{ type: 'image', data: png.toString('base64'), mimeType: 'image/png' }] };
+    }
+  );
+
+  // Register get_palettes tool
+  server.tool(
+    'get_palettes',
+    'Render the current background and sprite palettes as a PNG, plus the raw palette RAM values',
+    {
+      scale: z.number().int().min(1).max(8).optional().default(1).describe('Integer upscale factor')
+    },
+    async ({ scale }): Promise<CallToolResult> => {
+      const png = await emulatorService.renderPpuView('palettes', { scale });
+      const responseText: TextContent = {
+        type: 'text',
+        text: hexDump(emulatorService.getPaletteRam(), 0x3f00)
+      };
+      return { content: [{ type: 'image', data: png.toString('base64'), mimeType: 'image/png' }, responseText] };
+    }
+  );
+
+  // Register set_tile_map tool
+  server.tool(
+    'set_tile_map',
+    'Set the tile-to-character map get_screen_text uses for the loaded ROM (saved per ROM). Keys are hex tile IDs or ranges, e.g. {"00-09": "0123456789", "0A-23": "ABCDEFGHIJKLMNOPQRSTUVWXYZ", "24": " "}; an empty map removes it',
+    {
+      map: z.record(z.string()).describe('Hex tile ID or range -> character(s)')
+    },
+    async ({ map }): Promise<CallToolResult> => {
+      const tiles = emulatorService.setTileMap(map);
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify({ tiles })
+      };
+      return { content: [responseText] };
+    }
+  );
+
+  // Register read_memory tool
+  server.tool(
+    'read_memory',
+    'Read bytes from CPU address space ($0000-$07FF work RAM, $6000-$7FFF SRAM, ...), PPU VRAM, OAM or palette RAM',
+    {
+      region: z.nativeEnum(MemoryRegion).optional().default(MemoryRegion.CPU).describe('Address space to read from'),
+      address: z.union([z.number().int().nonnegative(), z.string()]).describe('Start address, as a number or hex string like "$0075"'),
+      length: z.number().int().positive().max(0x10000).optional().default(1).describe('Number of bytes to read'),
+      format: z.enum(['hex', 'bytes', 'values']).optional().default('bytes').describe('hex dump, raw byte array, or typed values'),
+      value_type: z.enum(['u8', 'u16le', 'bcd']).optional().default('u8').describe('How to decode bytes when format is "values"')
+    },
+    async ({ region, address, length, format, value_type }): Promise<CallToolResult> => {
+      const start = parseAddress(address);
+      const bytes = emulatorService.readMemory(region, start, length);
+
+      let text: string;
+      if (format === 'hex') {
+        text = hexDump(bytes, start);
+      } else if (format === 'values') {
+        text = JSON.stringify({ region, address: formatAddress(start), type: value_type, values: decodeValues(bytes, value_type) });
+      } else {
+        text = JSON.stringify({ region, address: formatAddress(start), bytes });
+      }
+
+      const responseText: TextContent = { type: 'text', text };
+      return { content: [responseText] };
+    }
+  );
+
+  // Register write_memory tool
+  server.tool(
+    'write_memory',
+    'Write bytes into CPU work RAM ($0000-$07FF) or SRAM ($6000-$7FFF), optionally freezing them so they are re-applied every frame',
+    {
+      address: z.union([z.number().int().nonnegative(), z.string()]).describe('Start address, as a number or hex string like "$075A"'),
+      values: z.array(z.number().int().min(0).max(255)).min(1).describe('Byte values to write, starting at address'),
+      freeze: z.boolean().optional().default(false).describe('Keep re-applying these values after every frame')
+    },
+    async ({ address, values, freeze }): Promise<CallToolResult> => {
+      const start = parseAddress(address);
+      emulatorService.writeMemory(start, values, freeze);
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify({ address: formatAddress(start), written: values.length, frozen: freeze })
+      };
+      return { content: [responseText] };
+    }
+  );
+
+  // Register list_freezes tool
+  server.tool(
+    'list_freezes',
+    'List memory addresses frozen with write_memory',
+    {},
+    async (): Promise<CallToolResult> => {
+      const freezes = emulatorService.listFreezes().map(({ address, value }) => ({
+        address: formatAddress(address),
+        value
+      }));
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify(freezes)
+      };
+      return { content: [responseText] };
+    }
+  );
+
+  // Register clear_freeze tool
+  server.tool(
+    'clear_freeze',
+    'Stop freezing a memory address (or all addresses when none is given)',
+    {
+      address: z.union([z.number().int().nonnegative(), z.string()]).optional().describe('Frozen address to release; omit to clear every freeze')
+    },
+    async ({ address }): Promise<CallToolResult> => {
+      const cleared = emulatorService.clearFreeze(address === undefined ? undefined : parseAddress(address));
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify({ cleared })
+      };
+      return { content: [responseText] };
+    }
+  );
+
+  // Register ram_search_start tool
+  server.tool(
+    'ram_search_start',
+    'Start a RAM search: snapshot the 2KB work RAM and make every address a candidate',
+    {},
+    async (): Promise<CallToolResult> => {
+      const candidates = emulatorService.ramSearchStart();
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify({ candidates })
+      };
+      return { content: [responseText] };
+    }
+  );
+
+  // Register ram_search_filter tool
+  server.tool(
+    'ram_search_filter',
+    'Keep RAM search candidates whose value is equal/changed/increased/decreased since the last snapshot, or equal to a value',
+    {
+      comparison: z.enum(['equal', 'changed', 'increased', 'decreased', 'equal_to']).describe('How the current value must compare to the last snapshot'),
+      value: z.number().int().min(0).max(255).optional().describe('Target value for the "equal_to" comparison')
+    },
+    async ({ comparison, value }): Promise<CallToolResult> => {
+      const candidates = emulatorService.ramSearchFilter(comparison, value);
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify({ candidates })
+      };
+      return { content: [responseText] };
+    }
+  );
+
+  // Register ram_search_results tool
+  server.tool(
+    'ram_search_results',
+    'List the remaining RAM search candidates with their previous and current values',
+    {
+      limit: z.number().int().positive().optional().default(50).describe('Maximum number of candidates to return')
+    },
+    async ({ limit }): Promise<CallToolResult> => {
+      const { total, candidates } = emulatorService.ramSearchResults(limit);
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify({
+          total,
+          candidates: candidates.map(candidate => ({ ...candidate, address: formatAddress(candidate.address) }))
+        })
+      };
+      return { content: [responseText] };
+    }
+  );
+
+  // Register add_cheat tool
+  server.tool(
+    'add_cheat',
+    'Add a Game Genie code (6 or 8 letters) or raw ADDR:VAL[:CMP] cheat for the loaded ROM; cheats are saved per ROM',
+    {
+      code: z.string().min(1).describe('Game Genie code like "SXIOPO" or raw hex code like "075A:09"'),
+      description: z.string().optional().describe('What the cheat does')
+    },
+    async ({ code, description }): Promise<CallToolResult> => {
+      const cheat = emulatorService.addCheat(code, description);
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify({ ...cheat, address: formatAddress(cheat.address) })
+      };
+      return { content: [responseText] };
+    }
+  );
+
+  // Register remove_cheat tool
+  server.tool(
+    'remove_cheat',
+    'Remove a cheat code from the loaded ROM',
+    {
+      code: z.string().min(1).describe('Cheat code to remove, as it was added')
+    },
+    async ({ code }): Promise<CallToolResult> => {
+      const removed = emulatorService.removeCheat(code);
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify({ code, removed })
+      };
+      return { content: [responseText] };
+    }
+  );
+
+  // Register list_cheats tool
+  server.tool(
+    'list_cheats',
+    'List the cheat codes active for the loaded ROM',
     {},
     async (): Promise<CallToolResult> => {
-      const screen = emulatorService.advanceFrameAndGetScreen();
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify({
+          enabled: emulatorService.areCheatsEnabled(),
+          cheats: emulatorService.listCheats().map(cheat => ({ ...cheat, address: formatAddress(cheat.address) }))
+        })
+      };
+      return { content: [responseText] };
+    }
+  );
+
+  // Register export_sram tool
+  server.tool(
+    'export_sram',
+    'Export the 8KB cartridge SRAM ($6000-$7FFF), as base64 or to a file',
+    {
+      path: z.string().optional().describe('File to write the SRAM to; omit to return it as base64')
+    },
+    async ({ path: outputPath }): Promise<CallToolResult> => {
+      const result = emulatorService.exportSram(outputPath);
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify(result)
+      };
+      return { content: [responseText] };
+    }
+  );
+
+  // Register import_sram tool
+  server.tool(
+    'import_sram',
+    'Replace the cartridge SRAM ($6000-$7FFF) from a .sav file or base64 data; battery-backed games persist it immediately',
+    {
+      path: z.string().optional().describe('Path of a .sav file to import'),
+      data: z.string().optional().describe('Base64-encoded SRAM contents (used when path is omitted)')
+    },
+    async ({ path: inputPath, data }): Promise<CallToolResult> => {
+      const result = emulatorService.importSram({ path: inputPath, data });
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify(result)
+      };
+      return { content: [responseText] };
+    }
+  );
+
+  // Register save_state tool
+  server.tool(
+    'save_state',
+    'Save the current emulator state into a named slot for the loaded ROM',
+    {
+      name: z.string().min(1).describe('Name of the save-state slot (overwrites an existing slot with the same name)')
+    },
+    async ({ name }): Promise<CallToolResult> => {
+      const info = emulatorService.saveState(name);
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify(info)
+      };
+      return { content: [responseText] };
+    }
+  );
+
+  // Register load_state tool
+  server.tool(
+    'load_state',
+    'Restore the emulator state from a named slot saved for the loaded ROM',
+    {
+      name: z.string().min(1).describe('Name of the save-state slot to restore')
+    },
+    async ({ name }): Promise<CallToolResult> => {
+      const screen = await emulatorService.loadState(name);
       return { content: [screen] };
     }
   );
 
+  // Register start_recording tool
+  server.tool(
+    'start_recording',
+    'Start recording every frame of controller input as a movie, either from power-on or from the current state',
+    {
+      from: z.enum(['power_on', 'current_state']).default('power_on').describe('Power-cycle the console first (needed for FM2 export) or record from the current state')
+    },
+    async ({ from }): Promise<CallToolResult> => {
+      emulatorService.startRecording(from === 'power_on');
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify({ recording: true, from })
+      };
+      return { content: [responseText] };
+    }
+  );
+
+  // Register stop_recording tool
+  server.tool(
+    'stop_recording',
+    'Stop recording and save the movie. Paths ending in .fm2 are written as FCEUX movies, anything else as JSON. If the movie can\'t be saved, recording continues so you can retry with another path',
+    {
+      path: z.string().optional().describe('Where to save the movie (default: movies/<rom>-<timestamp>.fm2)')
+    },
+    async ({ path }): Promise<CallToolResult> => {
+      const result = emulatorService.stopRecording(path);
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify(result)
+      };
+      return { content: [responseText] };
+    }
+  );
+
+  // Register play_movie tool
+  server.tool(
+    'play_movie',
+    'Replay a recorded movie or FCEUX .fm2 file from its start and return the final screen, checked against the recording when possible',
+    {
+      path: z.string().describe('Path to a .fm2 or JSON movie file')
+    },
+    async ({ path }): Promise<CallToolResult> => {
+      const { result, screen } = await emulatorService.playMovie(path);
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify(result)
+      };
+      return { content: [screen, responseText] };
+    }
+  );
+
+  // Register start_audio_capture tool
+  server.tool(
+    'start_audio_capture',
+    'Start capturing the audio of every frame run from now on (turns on sound emulation until the capture stops)',
+    {},
+    async (): Promise<CallToolResult> => {
+      emulatorService.startAudioCapture();
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify({ capturing: true })
+      };
+      return { content: [responseText] };
+    }
+  );
+
+  // Register stop_audio_capture tool
+  server.tool(
+    'stop_audio_capture',
+    'Stop capturing audio and return the captured frames as a WAV clip, with its peak and RMS levels',
+    {
+      path: z.string().optional().describe('Also save the WAV file to this path'),
+      include_audio: z.boolean().default(true).describe('Return the WAV data (set to false to get only the levels)')
+    },
+    async ({ path, include_audio }): Promise<CallToolResult> => {
+      const { wav, info } = emulatorService.stopAudioCapture(path);
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify(info)
+      };
+      if (!include_audio) {
+        return { content: [responseText] };
+      }
+      const audio: AudioContent = {
+        type: 'audio',
+        data: wav.toString('base64'),
+        mimeType: 'audio/wav'
+      };
+      return { content: [audio, responseText] };
+    }
+  );
+
+  // Register rewind tool
+  server.tool(
+    'rewind',
+    'Step back in time by a number of frames or seconds and return the screen at that point. Snapshots are taken periodically, so the actual distance is rounded up to the nearest snapshot. Also reports how many frames further back it can still go',
+    {
+      frames: z.number().int().positive().optional().describe('Number of frames to rewind (60 frames = 1 second)'),
+      seconds: z.number().positive().optional().describe('Number of seconds to rewind (used when frames is not given)')
+    },
+    async ({ frames, seconds }): Promise<CallToolResult> => {
+      if (frames === undefined && seconds === undefined) {
+        throw new Error('Specify either frames or seconds');
+      }
+      const { framesRewound, framesAvailable, screen } = await emulatorService.rewind(frames ?? Math.round(seconds! * 60));
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify({ framesRewound, framesAvailable })
+      };
+      return { content: [screen, responseText] };
+    }
+  );
+
+  // Register list_states tool
+  server.tool(
+    'list_states',
+    'List the save-state slots available for the loaded ROM',
+    {},
+    async (): Promise<CallToolResult> => {
+      const states = emulatorService.listStates();
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify(states)
+      };
+      return { content: [responseText] };
+    }
+  );
+
+  // Register delete_state tool
+  server.tool(
+    'delete_state',
+    'Delete a named save-state slot for the loaded ROM',
+    {
+      name: z.string().min(1).describe('Name of the save-state slot to delete')
+    },
+    async ({ name }): Promise<CallToolResult> => {
+      const deleted = emulatorService.deleteState(name);
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify({ name, deleted })
+      };
+      return { content: [responseText] };
+    }
+  );
+
   // Register is_rom_loaded tool
   server.tool(
     'is_rom_loaded',
@@ -90,35 +825,55 @@ export function registerNESTools(server: McpServer, emulatorService: EmulatorSer
     }
   );
 
+  // Register get_rom_info tool
+  server.tool(
+    'get_rom_info',
+    'Get the iNES/NES 2.0 header fields (mapper, submapper, ROM/RAM sizes, mirroring, battery, trainer, timing) and CRC32/SHA-1 hashes of the loaded ROM or a ROM file',
+    {
+      path: z.string().optional().describe('ROM file to inspect (default: the loaded ROM)')
+    },
+    async ({ path }): Promise<CallToolResult> => {
+      const info = emulatorService.getRomInfo(path);
+      const responseText: TextContent = {
+        type: 'text',
+        text: JSON.stringify(info)
+      };
+      return { content: [responseText] };
+    }
+  );
+
   // Register list_roms tool
   server.tool(
     'list_roms',
-    'List all available NES ROM files',
-    {},
-    async (): Promise<CallToolResult> => {
+    'List the ROMs in the roms/ directory, including subdirectories and .nes files inside zip archives, with their title, mapper and last-played time. Optionally search and filter them',
+    {
+      query: z.string().optional().describe('Case-insensitive text to match against the title or path'),
+      mapper: z.number().int().nonnegative().optional().describe('Only ROMs using this mapper number'),
+      supported: z.boolean().optional().describe('Only ROMs whose mapper is (true) or is not (false) supported'),
+      sort: z.enum(['title', 'last_played']).default('title').describe('Sort by title, or most recently played first'),
+      metadata: z.boolean().default(false).describe('Include get_rom_info details for each ROM')
+    },
+    async ({ query, mapper, supported, sort, metadata }): Promise<CallToolResult> => {
       try {
-        const romsDir = path.join(process.cwd(), 'roms');
-
-        if (!fs.existsSync(romsDir)) {
-          fs.mkdirSync(romsDir);
-          log.info('Created roms directory');
-        }
-
-        const romFiles = fs.readdirSync(romsDir)
-          .filter(file => file.endsWith('.nes'))
-          .map(file => ({
-            name: file,
-            path: path.join(romsDir, file)
-          }));
+        const roms = listRomLibrary({ query, mapper, supported, sort }).map(rom => {
+          if (!metadata || rom.error) {
+            return rom;
+          }
+          try {
+            return { ...rom, info: emulatorService.getRomInfo(rom.path) };
+          } catch (error) {
+            return { ...rom, error: error instanceof Error ? error.message : String(error) };
+          }
+        });
 
         const responseText: TextContent = {
           type: 'text',
-          text: JSON.stringify(romFiles)
+          text: JSON.stringify(roms)
         };
 
         log.verbose('Listed available ROMs', JSON.stringify({
-          count: romFiles.length,
-          roms: romFiles
+          count: roms.length,
+          roms
         }));
 
         return { content: [responseText] };
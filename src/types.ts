@@ -15,22 +15,493 @@ export enum NESButton {
   SELECT = 'SELECT'
 }
 
+// Controller port (the core exposes controllers 1 and 2)
+export type NESPlayer = 1 | 2;
+
 // Tool schemas
-export interface PressButtonToolSchema {
+export type ScreenshotFormat = 'png' | 'jpeg' | 'webp';
+
+// How screen images are rendered and encoded
+export interface ScreenshotOptions {
+  // Integer upscale factor (nearest-neighbour)
+  scale: number;
+  // Drop the top and bottom 8 lines, which most TVs hid
+  cropOverscan: boolean;
+  grayscale: boolean;
+  format: ScreenshotFormat;
+  // JPEG/WebP quality, 1-100
+  quality: number;
+  // When false, screen-returning tools skip the image
+  includeImage: boolean;
+}
+
+// Per-call screenshot overrides accepted by the screen-returning tools
+export interface ScreenshotToolOptions {
+  scale?: number;
+  crop_overscan?: boolean;
+  grayscale?: boolean;
+  format?: ScreenshotFormat;
+  quality?: number;
+  include_image?: boolean;
+}
+
+export interface PressButtonToolSchema extends ScreenshotToolOptions {
   button: NESButton;
   duration_frames?: number;
+  player?: NESPlayer;
+}
+
+export interface PressButtonsToolSchema extends ScreenshotToolOptions {
+  buttons: NESButton[];
+  duration_frames?: number;
+  player?: NESPlayer;
+}
+
+// One step of a frame-timed input timeline
+export interface InputStep {
+  buttons: NESButton[];
+  frames: number;
+  release_frames?: number;
+  screenshot?: boolean;
+}
+
+export interface ExecuteInputSequenceToolSchema {
+  steps: InputStep[];
+  player?: NESPlayer;
+}
+
+export interface SaveMacroToolSchema {
+  name: string;
+  steps: InputStep[];
+}
+
+export interface RunMacroToolSchema {
+  name: string;
+  player?: NESPlayer;
 }
 
-export interface WaitFramesToolSchema {
+export interface WaitFramesToolSchema extends ScreenshotToolOptions {
   duration_frames: number;
 }
 
 export interface LoadRomToolSchema {
   romPath: string;
+  patches?: string[];
+  auto_patch?: boolean;
+}
+
+// IPS/BPS/UPS patches to apply in memory when loading a ROM. Without an explicit list,
+// a patch named after the ROM is applied unless autoPatch is false.
+export interface LoadRomOptions {
+  patches?: string[];
+  autoPatch?: boolean;
+}
+
+export type GetScreenToolSchema = ScreenshotToolOptions;
+
+export interface SaveStateToolSchema {
+  name: string;
+}
+
+export interface LoadStateToolSchema {
+  name: string;
+}
+
+export interface DeleteStateToolSchema {
+  name: string;
+}
+
+// One OAM entry, decoded
+export interface OamSprite {
+  index: number;
+  x: number;
+  // Screen line the sprite's top row is drawn on
+  y: number;
+  tile: number;
+  palette: number;
+  flipH: boolean;
+  flipV: boolean;
+  behindBackground: boolean;
+}
+
+// A visible sprite, with its on-screen size
+export interface SpriteInfo extends OamSprite {
+  width: number;
+  height: number;
+}
+
+// Adjacent sprites merged into one object, e.g. a 16x16 character made of four sprites
+export interface SpriteGroup {
+  // OAM indexes of the sprites in the group
+  sprites: number[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  palettes: number[];
+}
+
+export interface GetSpritesToolSchema {
+  group?: boolean;
+  max_gap?: number;
+}
+
+// Background tiles and sprites as seen on screen, read from the PPU
+export interface ScreenTiles {
+  scrollX: number;
+  scrollY: number;
+  // 30 rows of 32 background tile IDs at the current scroll (rounded to whole tiles)
+  tiles: number[][];
+  // Background palette (0-3) of each tile
+  palettes: number[][];
+  sprites: OamSprite[];
+  // 8 for 8x8 sprites, 16 for 8x16
+  spriteHeight: number;
+}
+
+// A rectangle of screen pixels
+export interface ScreenRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type RamWaitOperator = 'equals' | 'not_equals' | 'crosses';
+
+// Something wait_until waits for
+export type WaitCondition =
+  | { type: 'ram'; address: number; op: RamWaitOperator; value: number }
+  | { type: 'screen_change' }
+  | { type: 'screen_static'; frames: number }
+  | ({ type: 'region_hash'; hash: string } & ScreenRegion);
+
+export interface WaitUntilResult {
+  // Index and type of the condition that fired, unless the wait timed out
+  condition?: number;
+  type?: WaitCondition['type'];
+  framesElapsed: number;
+  timedOut: boolean;
+}
+
+export interface WaitUntilToolSchema extends ScreenshotToolOptions {
+  conditions: WaitCondition[];
+  max_frames?: number;
+}
+
+export type GetRegionHashToolSchema = ScreenRegion;
+
+// PPU state needed to draw the debug views
+export interface PpuSnapshot {
+  // The four nametables ($2000-$2FFF, after mirroring), 0x400 bytes each
+  nametables: number[];
+  // 512 pattern table tiles, 64 pixel values (0-3) each
+  patterns: number[][];
+  // Current background and sprite colors (0xBBGGRR), 16 each
+  backgroundColors: number[];
+  spriteColors: number[];
+  // Raw palette RAM ($3F00-$3F1F)
+  paletteRam: number[];
+  // Pattern table (0 or 1) used for the background
+  backgroundPatternTable: number;
+  scrollX: number;
+  scrollY: number;
+}
+
+export interface GetNametablesToolSchema {
+  scale?: number;
+}
+
+export interface GetPatternTablesToolSchema {
+  palette?: number;
+  scale?: number;
+}
+
+export interface GetPalettesToolSchema {
+  scale?: number;
+}
+
+export interface GetScreenTextToolSchema {
+  mode?: 'tiles' | 'chars';
+  sprites?: boolean;
+}
+
+export interface SetTileMapToolSchema {
+  map: Record<string, string>;
+}
+
+// Controller state for one frame: player 1 and player 2 button masks
+// (bit 0 = A, B, Select, Start, Up, Down, Left, bit 7 = Right), plus an
+// optional FM2 command (1 = soft reset, 2 = power cycle)
+export type MovieFrame = [number, number, number?];
+
+export interface Movie {
+  romFilename: string;
+  // SHA-1 of the ROM image (movies recorded here)
+  romHash?: string;
+  // FCEUX-style "base64:<MD5 of PRG+CHR>" checksum
+  romChecksum?: string;
+  // Serialized machine state the movie starts from; power-on movies have none
+  startState?: string;
+  frames: MovieFrame[];
+  rerecordCount: number;
+  // SHA-1 of the frame on screen when recording stopped
+  finalScreenHash?: string;
+}
+
+export interface MoviePlaybackResult {
+  frames: number;
+  finalScreenHash: string;
+  // Whether the final screen matches the recording's, when the movie has one
+  screenMatches?: boolean;
+}
+
+export interface StartRecordingToolSchema {
+  from?: 'power_on' | 'current_state';
+}
+
+export interface StopRecordingToolSchema {
+  path?: string;
+}
+
+export interface PlayMovieToolSchema {
+  path: string;
+}
+
+export type ClipFormat = 'gif' | 'apng';
+
+export interface ClipOptions {
+  // Total frames to run; defaults to the length of the input sequence
+  frames?: number;
+  // Capture every Nth frame
+  every: number;
+  steps?: InputStep[];
+  player?: NESPlayer;
+  format: ClipFormat;
+  scale: number;
+  path?: string;
+}
+
+export interface ClipInfo {
+  format: ClipFormat;
+  framesRun: number;
+  images: number;
+  width: number;
+  height: number;
+  durationSeconds: number;
+  bytes: number;
+  path?: string;
+}
+
+export interface RecordClipToolSchema {
+  frames?: number;
+  every?: number;
+  steps?: InputStep[];
+  player?: NESPlayer;
+  format?: ClipFormat;
+  scale?: number;
+  path?: string;
+}
+
+// Audio collected between start_audio_capture and stop_audio_capture
+export interface AudioClip {
+  sampleRate: number;
+  channels: number;
+  // Interleaved left/right samples in [-1, 1]
+  samples: Float32Array;
+  frames: number;
+  // Samples past the capture length limit were dropped
+  truncated: boolean;
+}
+
+export interface AudioCaptureInfo {
+  frames: number;
+  durationSeconds: number;
+  sampleRate: number;
+  channels: number;
+  // Peak and RMS level of the clip, from 0 (silence) to 1
+  peak: number;
+  rms: number;
+  truncated: boolean;
+  path?: string;
+}
+
+export interface StopAudioCaptureToolSchema {
+  path?: string;
+  include_audio?: boolean;
+}
+
+export interface RewindToolSchema {
+  frames?: number;
+  seconds?: number;
+}
+
+export type RomMirroring = 'horizontal' | 'vertical' | 'four-screen';
+
+export type RomHeaderFormat = 'iNES' | 'NES 2.0' | 'archaic iNES';
+
+// Header fields and hashes of a .nes file
+export interface RomInfo {
+  path: string;
+  fileSize: number;
+  // Archaic iNES headers have junk in bytes 7-15, so only the low mapper nibble is used
+  format: RomHeaderFormat;
+  mapper: number;
+  // NES 2.0 only
+  submapper?: number;
+  mapperName: string;
+  // Whether the emulator core implements the mapper, i.e. the ROM can be loaded
+  mapperSupported: boolean;
+  // ROM and RAM sizes in bytes; no CHR-ROM means the cart uses CHR-RAM
+  prgRomSize: number;
+  chrRomSize: number;
+  prgRamSize: number;
+  prgNvramSize: number;
+  chrRamSize: number;
+  chrNvramSize: number;
+  mirroring: RomMirroring;
+  battery: boolean;
+  trainer: boolean;
+  // NES 2.0 only: NTSC, PAL, multi-region or Dendy
+  timing?: string;
+  // 0 = NES/Famicom, 1 = Vs. System, 2 = PlayChoice-10, 3 = extended
+  consoleType: number;
+  // Bytes past the declared ROM data (NES 2.0 miscellaneous ROMs, or junk from the dumper)
+  extraBytes: number;
+  // CRC32 and SHA-1 of the ROM data without the header (as listed in No-Intro style databases)
+  crc32: string;
+  sha1: string;
+  // SHA-1 of the whole file, as used to key save states, cheats and tile maps
+  fileSha1: string;
+}
+
+export interface GetRomInfoToolSchema {
+  path?: string;
+}
+
+// A ROM found in the roms/ directory, with the details cached in the library index
+export interface RomLibraryEntry {
+  // File name, or entry name for ROMs inside zip archives
+  name: string;
+  // File path, or "<archive>.zip#<entry>" for ROMs inside zip archives
+  path: string;
+  // SHA-1 of the whole file, the same key as save states, cheats and tile maps
+  hash: string;
+  title: string;
+  mapper?: number;
+  mapperName?: string;
+  mapperSupported?: boolean;
+  // ISO timestamp of the last time the ROM was loaded
+  lastPlayed?: string;
+  // Why the header couldn't be read
+  error?: string;
+}
+
+export type RomLibrarySort = 'title' | 'last_played';
+
+export interface RomLibraryFilter {
+  // Case-insensitive match against the title and path
+  query?: string;
+  mapper?: number;
+  supported?: boolean;
+  sort?: RomLibrarySort;
+}
+
+export interface ListRomsToolSchema {
+  metadata?: boolean;
+  query?: string;
+  mapper?: number;
+  supported?: boolean;
+  sort?: RomLibrarySort;
+}
+
+// Save-state slot metadata (the serialized machine state itself stays in NESEmulator)
+export interface SaveStateInfo {
+  name: string;
+  romPath: string;
+  romHash: string;
+  createdAt: string;
+}
+
+// Memory spaces readable through read_memory
+export enum MemoryRegion {
+  CPU = 'cpu',
+  VRAM = 'vram',
+  OAM = 'oam',
+  PALETTE = 'palette'
+}
+
+export type MemoryFormat = 'hex' | 'bytes' | 'values';
+
+export type MemoryValueType = 'u8' | 'u16le' | 'bcd';
+
+export interface WriteMemoryToolSchema {
+  address: number | string;
+  values: number[];
+  freeze?: boolean;
+}
+
+export interface ClearFreezeToolSchema {
+  address?: number | string;
+}
+
+// A CPU address whose value is re-applied after every frame
+export interface MemoryFreeze {
+  address: number;
+  value: number;
+}
+
+export interface ReadMemoryToolSchema {
+  region?: MemoryRegion;
+  address: number | string;
+  length?: number;
+  format?: MemoryFormat;
+  value_type?: MemoryValueType;
+}
+
+// RAM search (cheat finder) comparisons against the previous snapshot
+export type RamSearchComparison = 'equal' | 'changed' | 'increased' | 'decreased' | 'equal_to';
+
+export interface RamSearchFilterToolSchema {
+  comparison: RamSearchComparison;
+  value?: number;
+}
+
+export interface RamSearchResultsToolSchema {
+  limit?: number;
+}
+
+export interface RamSearchCandidate {
+  address: number;
+  previous: number;
+  current: number;
+}
+
+// Cheat code (Game Genie or raw ADDR:VAL[:CMP]) with its decoded patch
+export interface Cheat {
+  code: string;
+  address: number;
+  value: number;
+  compare?: number;
+  description?: string;
+}
+
+export interface AddCheatToolSchema {
+  code: string;
+  description?: string;
+}
+
+export interface RemoveCheatToolSchema {
+  code: string;
+}
+
+export interface ExportSramToolSchema {
+  path?: string;
 }
 
-export interface GetScreenToolSchema {
-  // No parameters needed
+export interface ImportSramToolSchema {
+  path?: string;
+  data?: string;
 }
 
 // Server configuration
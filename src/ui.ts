@@ -1,9 +1,12 @@
 import express, { Request, Response, RequestHandler } from 'express';
+import multer from 'multer';
 import * as path from 'path';
 import * as fs from 'fs';
 import { EmulatorService } from './emulatorService';
-import { NESButton } from './types';
+import { NESButton, RomLibraryEntry, ScreenshotOptions } from './types';
 import { log } from './utils/logger';
+import { getRomsDir, listRomLibrary, pairUploadedPatch, splitRomPath } from './romLibrary';
+import { isScreenshotFormat, MAX_SCREENSHOT_QUALITY, MAX_SCREENSHOT_SCALE } from './utils/screenshot';
 
 // Build a browser-compatible bundle of the NES core (cached)
 let nesCoreBundleCache: string | null = null;
@@ -26,7 +29,62 @@ function getNesCoreBundle(): string {
   return bundle;
 }
 
-export function setupWebUI(app: express.Application, emulatorService: EmulatorService): void {
+// Resolves the emulator a web request is looking at. SSE mode runs one emulator per
+// MCP session, selected with ?session=<id>; stdio mode always returns the same one.
+export type EmulatorServiceResolver = (req: Request) => EmulatorService | undefined;
+
+export interface SessionSummary {
+  id: string;
+  romPath: string | null;
+}
+
+// Carry the selected session through links and API calls
+function sessionQuery(req: Request, prefix: '?' | '&' = '?'): string {
+  const session = req.query.session;
+  return typeof session === 'string' && session ? `${prefix}session=${encodeURIComponent(session)}` : '';
+}
+
+// ROM titles and searches come from file names and user input
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+// Page heading for the loaded ROM: its file (or zip entry) name without the .nes extension, escaped
+function romDisplayName(romPath: string | undefined): string {
+  if (!romPath) {
+    return 'No ROM';
+  }
+  const { filePath, entry } = splitRomPath(romPath);
+  return escapeHtml(path.basename(entry ?? filePath, '.nes'));
+}
+
+// Screenshot overrides for /screen, e.g. /screen?scale=2&format=webp&quality=70
+function screenshotQuery(req: Request): Partial<ScreenshotOptions> {
+  const { scale, crop_overscan, grayscale, format, quality } = req.query;
+  const flag = (value: unknown) => (typeof value === 'string' ? value === 'true' || value === '1' : undefined);
+  return {
+    scale: typeof scale === 'string' ? Math.min(MAX_SCREENSHOT_SCALE, Math.max(1, parseInt(scale, 10) || 1)) : undefined,
+    cropOverscan: flag(crop_overscan),
+    grayscale: flag(grayscale),
+    format: isScreenshotFormat(format) ? format : undefined,
+    quality: typeof quality === 'string' ? Math.min(MAX_SCREENSHOT_QUALITY, Math.max(1, parseInt(quality, 10) || 80)) : undefined
+  };
+}
+
+export function setupWebUI(
+  app: express.Application,
+  resolveEmulator: EmulatorServiceResolver,
+  listSessions: () => SessionSummary[] = () => []
+): void {
+
+  // Look up the emulator this request is for, answering 404 for an unknown session
+  const emulatorFor = (req: Request, res: Response): EmulatorService | undefined => {
+    const emulatorService = resolveEmulator(req);
+    if (!emulatorService) {
+      res.status(404).send('Session not found');
+    }
+    return emulatorService;
+  };
 
   // Serve NES core as a browser JS bundle
   app.get('/nes-core.js', (req: Request, res: Response) => {
@@ -37,18 +95,23 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
 
   // Serve the currently-loaded ROM as raw binary (for browser-side emulation)
   app.get('/api/rom-binary', (req: Request, res: Response) => {
+    const emulatorService = emulatorFor(req, res);
+    if (!emulatorService) return;
     const romPath = emulatorService.getRomPath();
     if (!romPath) { res.status(404).send('No ROM loaded'); return; }
-    const fullPath = path.resolve(romPath);
-    if (!fs.existsSync(fullPath)) { res.status(404).send('ROM file not found'); return; }
+    // Send the image the server loaded so patches apply in the browser too
+    const romData = emulatorService.getRomData();
+    if (!romData) { res.status(404).send('ROM file not found'); return; }
     res.setHeader('Content-Type', 'application/octet-stream');
-    res.sendFile(fullPath);
+    res.send(romData);
   });
 
   // Main emulator page — runs NES client-side at 60fps with sound
   app.get('/emulator', (req: Request, res: Response) => {
-    const currentRomPath = emulatorService.getRomPath();
-    const romName = currentRomPath ? path.basename(currentRomPath, '.nes') : 'No ROM';
+    const emulatorService = emulatorFor(req, res);
+    if (!emulatorService) return;
+    const romName = romDisplayName(emulatorService.getRomPath());
+    const query = sessionQuery(req);
 
     res.send(`<!DOCTYPE html>
 <html>
@@ -195,6 +258,13 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
 
     .setting-divider { width: 1px; height: 18px; background: rgba(255,255,255,0.08); }
 
+    .setting-select {
+      font-family: 'Press Start 2P', monospace; font-size: 6px;
+      background: #333; color: #aaa; border: 1px solid #555; border-radius: 4px; padding: 4px 6px;
+      max-width: 140px;
+    }
+    .session-group.hidden { display: none; }
+
     /* ============ NES CONTROLLER ============ */
     .nes-controller { margin-top: 16px; }
 
@@ -366,6 +436,19 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
     <div class="setting-group">
       <button class="setting-btn" id="btn-speed">1x</button>
     </div>
+    <div class="setting-divider"></div>
+    <div class="setting-group">
+      <button class="setting-btn" id="btn-rewind" title="Hold to rewind (Backspace)">REWIND</button>
+    </div>
+    <div class="setting-divider"></div>
+    <div class="setting-group">
+      <button class="setting-btn" id="btn-cheats" title="Toggle cheat codes for this ROM">CHEATS</button>
+    </div>
+    <div class="setting-divider session-group hidden"></div>
+    <div class="setting-group session-group hidden">
+      <span class="setting-label">SESSION</span>
+      <select class="setting-select" id="session-select" title="MCP session to watch"></select>
+    </div>
   </div>
 
   <div class="wire-grow"><div class="wire-line"></div></div>
@@ -407,7 +490,8 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
     </div>
   </div>
 
-  <a class="back-link" href="/">&laquo; ROM SELECT</a>
+  <a class="back-link" href="/${query}">&laquo; ROM SELECT</a>
+  <a class="back-link" href="/debug${query}">PPU DEBUG &raquo;</a>
 
   <script>
     // ─── Audio ───────────────────────────────────────────────
@@ -486,13 +570,14 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
       statusOverlay.textContent = 'LOADING ROM...';
       statusOverlay.classList.remove('hidden');
       try {
-        var resp = await fetch('/api/rom-binary');
+        var resp = await fetch('/api/rom-binary${query}');
         if (!resp.ok) throw new Error('No ROM');
         var buf = await resp.arrayBuffer();
         var bytes = new Uint8Array(buf);
         var romStr = '';
         for (var i = 0; i < bytes.length; i++) romStr += String.fromCharCode(bytes[i]);
         nes.loadROM(romStr);
+        rewindSnapshots = [];
         running = true;
         paused = false;
         powerLed.classList.add('on');
@@ -512,13 +597,65 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
 
     function gameLoop(ts) {
       requestAnimationFrame(gameLoop);
+      pollGamepads();
       if (!running || paused) return;
       if (ts - lastTime < FRAME_MS * 0.9) return;
       lastTime = ts - ((ts - lastTime) % FRAME_MS);
-      for (var s = 0; s < speedMultiplier; s++) nes.frame();
+      if (rewinding) {
+        stepRewind();
+        return;
+      }
+      for (var s = 0; s < speedMultiplier; s++) {
+        nes.frame();
+        applyRamCheats();
+        if (++rewindFrameCounter % REWIND_INTERVAL === 0) captureRewindSnapshot();
+      }
+    }
+
+    // ─── Rewind (hold Backspace) ─────────────────────────────
+    // A gzipped snapshot every REWIND_INTERVAL frames; while rewinding,
+    // each displayed frame steps back one snapshot
+    var REWIND_INTERVAL = 6;
+    var REWIND_MAX_SNAPSHOTS = 600;
+    var rewindSnapshots = [];
+    var rewindFrameCounter = 0;
+    var rewinding = false;
+    var rewindPending = false;
+    var rewindBtn = document.getElementById('btn-rewind');
+
+    function captureRewindSnapshot() {
+      if (typeof CompressionStream === 'undefined') return;
+      var slot = { blob: null };
+      var json = JSON.stringify(nes.toJSON());
+      rewindSnapshots.push(slot);
+      if (rewindSnapshots.length > REWIND_MAX_SNAPSHOTS) rewindSnapshots.shift();
+      new Response(new Blob([json]).stream().pipeThrough(new CompressionStream('gzip'))).blob()
+        .then(function(blob) { slot.blob = blob; });
+    }
+
+    function stepRewind() {
+      if (rewindPending) return;
+      var slot = rewindSnapshots[rewindSnapshots.length - 1];
+      if (!slot || !slot.blob) return;
+      // Keep the oldest snapshot so holding the key stops there
+      if (rewindSnapshots.length > 1) rewindSnapshots.pop();
+      rewindPending = true;
+      new Response(slot.blob.stream().pipeThrough(new DecompressionStream('gzip'))).text()
+        .then(function(json) {
+          nes.fromJSON(JSON.parse(json));
+          nes.frame(); // redraw the restored frame
+        })
+        .catch(function(e) { console.warn('Rewind failed:', e); })
+        .finally(function() { rewindPending = false; });
+    }
+
+    function setRewinding(on) {
+      rewinding = on;
+      rewindBtn.classList.toggle('active', on);
     }
 
     // ─── Controller Input (keyboard) ─────────────────────────
+    // Player 1: arrows, Z/X, Enter, Shift
     var keyMap = {
       'ArrowUp': NESController.BUTTON_UP,
       'ArrowDown': NESController.BUTTON_DOWN,
@@ -530,6 +667,18 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
       'Shift': NESController.BUTTON_SELECT
     };
 
+    // Player 2: WASD, G/H, T (start), R (select)
+    var keyMap2 = {
+      'w': NESController.BUTTON_UP, 'W': NESController.BUTTON_UP,
+      's': NESController.BUTTON_DOWN, 'S': NESController.BUTTON_DOWN,
+      'a': NESController.BUTTON_LEFT, 'A': NESController.BUTTON_LEFT,
+      'd': NESController.BUTTON_RIGHT, 'D': NESController.BUTTON_RIGHT,
+      'g': NESController.BUTTON_B, 'G': NESController.BUTTON_B,
+      'h': NESController.BUTTON_A, 'H': NESController.BUTTON_A,
+      't': NESController.BUTTON_START, 'T': NESController.BUTTON_START,
+      'r': NESController.BUTTON_SELECT, 'R': NESController.BUTTON_SELECT
+    };
+
     var keyBtnMap = {
       'ArrowUp': 'btn-up', 'ArrowDown': 'btn-down',
       'ArrowLeft': 'btn-left', 'ArrowRight': 'btn-right',
@@ -547,19 +696,63 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
         var el = document.getElementById(keyBtnMap[e.key]);
         if (el) el.classList.add('pressed');
       }
+      var btn2 = keyMap2[e.key];
+      if (btn2 !== undefined) {
+        e.preventDefault();
+        resumeAudio();
+        nes.buttonDown(2, btn2);
+      }
+      if (e.key === 'Backspace') { e.preventDefault(); setRewinding(true); }
       if (e.key === 'p' || e.key === 'P') togglePause();
       if (e.key === 'm' || e.key === 'M') toggleSound();
     });
 
     document.addEventListener('keyup', function(e) {
+      if (e.key === 'Backspace') setRewinding(false);
       var btn = keyMap[e.key];
       if (btn !== undefined) {
         nes.buttonUp(1, btn);
         var el = document.getElementById(keyBtnMap[e.key]);
         if (el) el.classList.remove('pressed');
       }
+      var btn2 = keyMap2[e.key];
+      if (btn2 !== undefined) {
+        nes.buttonUp(2, btn2);
+      }
     });
 
+    // ─── Controller Input (gamepads) ─────────────────────────
+    // First connected gamepad drives player 1, second drives player 2.
+    // Standard mapping: face buttons 0/1 = B/A, 8/9 = Select/Start, 12-15 = D-pad
+    var padMapping = [
+      [0, NESController.BUTTON_B],
+      [1, NESController.BUTTON_A],
+      [8, NESController.BUTTON_SELECT],
+      [9, NESController.BUTTON_START],
+      [12, NESController.BUTTON_UP],
+      [13, NESController.BUTTON_DOWN],
+      [14, NESController.BUTTON_LEFT],
+      [15, NESController.BUTTON_RIGHT]
+    ];
+    var padState = { 1: {}, 2: {} };
+
+    function pollGamepads() {
+      if (!navigator.getGamepads) return;
+      var pads = Array.prototype.filter.call(navigator.getGamepads(), function(p) { return p; });
+      for (var n = 0; n < 2 && n < pads.length; n++) {
+        var player = n + 1;
+        padMapping.forEach(function(pair) {
+          var b = pads[n].buttons[pair[0]];
+          var down = !!(b && b.pressed);
+          if (down !== !!padState[player][pair[1]]) {
+            padState[player][pair[1]] = down;
+            if (down) { resumeAudio(); nes.buttonDown(player, pair[1]); }
+            else nes.buttonUp(player, pair[1]);
+          }
+        });
+      }
+    }
+
     // ─── Controller Input (on-screen buttons) ────────────────
     var btnMapping = [
       ['btn-up',     NESController.BUTTON_UP],
@@ -627,12 +820,156 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
       speedBtn.classList.toggle('active', speedMultiplier > 1);
     }
 
+    // Cheats: same codes as the MCP add_cheat tool, fetched from the server.
+    // PRG patches go into the core; RAM cheats are re-applied after each frame.
+    var cheatsBtn = document.getElementById('btn-cheats');
+    var cheatsEnabled = false;
+    var ramCheats = [];
+
+    function applyCheats(state) {
+      cheatsEnabled = state.enabled;
+      var prg = state.cheats.filter(function(c) { return c.address >= 0x8000; });
+      ramCheats = state.cheats.filter(function(c) { return c.address < 0x8000; });
+      nes.setPrgPatches(cheatsEnabled && prg.length > 0 ? prg : null);
+      cheatsBtn.classList.toggle('active', cheatsEnabled && state.cheats.length > 0);
+      cheatsBtn.textContent = 'CHEATS ' + (cheatsEnabled ? state.cheats.length : 'OFF');
+    }
+
+    function applyRamCheats() {
+      if (!cheatsEnabled) return;
+      for (var i = 0; i < ramCheats.length; i++) {
+        var c = ramCheats[i];
+        var addr = c.address < 0x2000 ? c.address & 0x7ff : c.address;
+        if (c.compare === undefined || nes.cpu.mem[addr] === c.compare) nes.cpu.mem[addr] = c.value;
+      }
+    }
+
+    function loadCheats() {
+      fetch('/api/cheats${query}').then(function(r) { return r.json(); }).then(applyCheats).catch(function() {});
+    }
+
+    function toggleCheats() {
+      fetch('/api/cheats${query}', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !cheatsEnabled })
+      }).then(function(r) { return r.json(); }).then(applyCheats).catch(function() {});
+    }
+
     pauseBtn.addEventListener('click', function() { resumeAudio(); togglePause(); });
+    cheatsBtn.addEventListener('click', function() { toggleCheats(); });
     muteBtn.addEventListener('click', function() { resumeAudio(); toggleSound(); });
     speedBtn.addEventListener('click', function() { cycleSpeed(); });
+    rewindBtn.addEventListener('pointerdown', function(e) { e.preventDefault(); setRewinding(true); });
+    rewindBtn.addEventListener('pointerup', function() { setRewinding(false); });
+    rewindBtn.addEventListener('pointerleave', function() { setRewinding(false); });
+
+    // ─── Session Picker ──────────────────────────────────────
+    // SSE mode runs one emulator per MCP session; pick which one this page shows
+    var sessionSelect = document.getElementById('session-select');
+    var currentSession = new URLSearchParams(location.search).get('session') || '';
+
+    function loadSessions() {
+      fetch('/api/sessions').then(function(r) { return r.json(); }).then(function(sessions) {
+        if (sessions.length === 0 && !currentSession) return;
+        var options = [{ id: '', label: 'WEB' }].concat(sessions.map(function(s) {
+          var rom = s.romPath ? s.romPath.split(/[\\\\/]/).pop() : 'no rom';
+          return { id: s.id, label: s.id.slice(0, 8) + ' (' + rom + ')' };
+        }));
+        sessionSelect.innerHTML = '';
+        options.forEach(function(o) {
+          var opt = document.createElement('option');
+          opt.value = o.id;
+          opt.textContent = o.label;
+          opt.selected = o.id === currentSession;
+          sessionSelect.appendChild(opt);
+        });
+        document.querySelectorAll('.session-group').forEach(function(el) { el.classList.remove('hidden'); });
+      }).catch(function() {});
+    }
+
+    sessionSelect.addEventListener('change', function() {
+      var id = sessionSelect.value;
+      location.href = '/emulator' + (id ? '?session=' + encodeURIComponent(id) : '');
+    });
 
     // ─── Start ───────────────────────────────────────────────
-    loadROM();
+    loadROM().then(loadCheats);
+    loadSessions();
+  </script>
+</body>
+</html>`);
+  });
+
+  // PPU debug page — polls the server-side emulator's screen and PPU views
+  app.get('/debug', (req: Request, res: Response) => {
+    const emulatorService = emulatorFor(req, res);
+    if (!emulatorService) return;
+    const romName = romDisplayName(emulatorService.getRomPath());
+    const query = sessionQuery(req);
+    const extra = sessionQuery(req, '&');
+
+    res.send(`<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>MCP-NES Debug</title>
+  <style>
+    @import url('https://fonts.googleapis.com/css2?family=Press+Start+2P&display=swap');
+    body {
+      margin: 0;
+      padding: 16px;
+      background: linear-gradient(180deg, #1a1520 0%, #0d0a12 50%, #1a1520 100%);
+      font-family: 'Press Start 2P', monospace;
+      font-size: 10px;
+      color: #eee;
+      min-height: 100vh;
+      box-sizing: border-box;
+    }
+    h1 { font-size: 12px; margin: 0 0 16px; }
+    .views { display: flex; flex-wrap: wrap; gap: 16px; align-items: flex-start; }
+    .view { background: #1a1816; border: 2px solid #3a3632; border-radius: 8px; padding: 8px; }
+    .view h2 { font-size: 9px; color: #aaa; margin: 0 0 8px; }
+    .view img { display: block; image-rendering: pixelated; }
+    select, a { font-family: inherit; font-size: 9px; }
+    a { color: #777; }
+  </style>
+</head>
+<body>
+  <h1>PPU DEBUG &mdash; ${romName}</h1>
+  <div class="views">
+    <div class="view"><h2>SCREEN</h2><img id="screen" width="512" height="480" alt=""></div>
+    <div class="view"><h2>NAMETABLES</h2><img id="nametables" width="512" height="480" alt=""></div>
+    <div class="view">
+      <h2>PATTERN TABLES
+        <select id="palette">
+          <option value="0">BG 0</option><option value="1">BG 1</option><option value="2">BG 2</option><option value="3">BG 3</option>
+          <option value="4">SPR 0</option><option value="5">SPR 1</option><option value="6">SPR 2</option><option value="7">SPR 3</option>
+        </select>
+      </h2>
+      <img id="pattern_tables" width="512" height="256" alt="">
+      <h2 style="margin-top: 16px">PALETTES</h2>
+      <img id="palettes" width="512" height="64" alt="">
+    </div>
+  </div>
+  <p><a href="/emulator${query}">&laquo; EMULATOR</a></p>
+
+  <script>
+    var paletteSelect = document.getElementById('palette');
+
+    // Load each image only after the previous one finished, so a slow server isn't flooded
+    function refresh(id, url) {
+      var img = document.getElementById(id);
+      var next = new Image();
+      next.onload = function() { img.src = next.src; setTimeout(function() { refresh(id, url); }, 250); };
+      next.onerror = function() { setTimeout(function() { refresh(id, url); }, 1000); };
+      next.src = url() + '&t=' + Date.now();
+    }
+
+    refresh('screen', function() { return '/screen?scale=2${extra}'; });
+    refresh('nametables', function() { return '/api/debug/nametables?scale=1${extra}'; });
+    refresh('pattern_tables', function() { return '/api/debug/pattern_tables?scale=2&palette=' + paletteSelect.value + '${extra}'; });
+    refresh('palettes', function() { return '/api/debug/palettes?scale=2${extra}'; });
   </script>
 </body>
 </html>`);
@@ -640,15 +977,41 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
 
   // ─── Server-side API routes (for MCP tools and fallback) ───
 
-  const screenHandler: RequestHandler = (req, res) => {
+  // PPU debug views as PNGs: /api/debug/nametables, /api/debug/pattern_tables?palette=4, /api/debug/palettes
+  app.get('/api/debug/:view', async (req: Request, res: Response) => {
+    const emulatorService = emulatorFor(req, res);
+    if (!emulatorService) return;
+    const view = req.params.view;
+    if (view !== 'nametables' && view !== 'pattern_tables' && view !== 'palettes') {
+      res.status(404).send(`Unknown debug view: ${view}`);
+      return;
+    }
+    if (!emulatorService.isRomLoaded()) {
+      res.status(400).send('No ROM loaded');
+      return;
+    }
+    try {
+      const palette = Math.min(7, Math.max(0, parseInt(String(req.query.palette ?? '0'), 10) || 0));
+      const scale = Math.min(4, Math.max(1, parseInt(String(req.query.scale ?? '1'), 10) || 1));
+      const png = await emulatorService.renderPpuView(view, { palette, scale });
+      res.setHeader('Content-Type', 'image/png');
+      res.send(png);
+    } catch (error) {
+      log.error(`Error rendering debug view ${view}:`, error);
+      res.status(500).send('Error rendering debug view');
+    }
+  });
+
+  const screenHandler: RequestHandler = async (req, res) => {
+    const emulatorService = emulatorFor(req, res);
+    if (!emulatorService) return;
     if (!emulatorService.isRomLoaded()) {
       res.status(400).send('No ROM loaded');
     } else {
       try {
-        const screen = emulatorService.getScreen();
-        const screenBuffer = Buffer.from(screen.data, 'base64');
-        res.setHeader('Content-Type', 'image/png');
-        res.send(screenBuffer);
+        const screen = await emulatorService.getScreenImage(screenshotQuery(req));
+        res.setHeader('Content-Type', screen.mimeType);
+        res.send(screen.data);
       } catch (error) {
         log.error('Error getting screen:', error);
         res.status(500).send('Error getting screen');
@@ -657,15 +1020,17 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
   };
   app.get('/screen', screenHandler);
 
-  const advanceAndGetScreenHandler: RequestHandler = (req, res) => {
+  const advanceAndGetScreenHandler: RequestHandler = async (req, res) => {
+    const emulatorService = emulatorFor(req, res);
+    if (!emulatorService) return;
     if (!emulatorService.isRomLoaded()) {
       res.status(400).send('No ROM loaded');
     } else {
       try {
-        const screen = emulatorService.advanceFrameAndGetScreen();
-        const screenBuffer = Buffer.from(screen.data, 'base64');
-        res.setHeader('Content-Type', 'image/png');
-        res.send(screenBuffer);
+        emulatorService.advanceFrame();
+        const screen = await emulatorService.getScreenImage(screenshotQuery(req));
+        res.setHeader('Content-Type', screen.mimeType);
+        res.send(screen.data);
       } catch (error) {
         log.error('Error advancing frame and getting screen:', error);
         res.status(500).send('Error advancing frame and getting screen');
@@ -675,6 +1040,8 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
   app.get('/api/advance_and_get_screen', advanceAndGetScreenHandler);
 
   const apiToolHandler: RequestHandler = async (req, res) => {
+    const emulatorService = emulatorFor(req, res);
+    if (!emulatorService) return;
     const { tool, params } = req.body;
     log.info(`API /api/tool called: ${tool}`, params);
 
@@ -688,19 +1055,28 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
       return;
     }
 
+    const player = params?.player ?? 1;
+    if (player !== 1 && player !== 2) {
+      res.status(400).json({ error: 'Invalid player (must be 1 or 2)' });
+      return;
+    }
+
     try {
       let result: any;
 
       switch (tool) {
         case 'get_screen':
-          result = emulatorService.getScreen();
+          result = await emulatorService.getScreen();
           break;
         case 'load_rom':
           if (!params || !params.romPath) {
             res.status(400).json({ error: 'ROM path is required' });
             return;
           }
-          result = emulatorService.loadRom(params.romPath);
+          result = await emulatorService.loadRom(params.romPath, {
+            patches: Array.isArray(params.patches) ? params.patches : undefined,
+            autoPatch: params.auto_patch
+          });
           break;
         case 'wait_frames':
           const duration_frames_wait = params?.duration_frames ?? 100;
@@ -708,7 +1084,25 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
             res.status(400).json({ error: 'Invalid duration_frames' });
             return;
           }
-          result = emulatorService.waitFrames(duration_frames_wait);
+          result = await emulatorService.waitFrames(duration_frames_wait);
+          break;
+        case 'press_buttons':
+          const buttons = params?.buttons;
+          if (!Array.isArray(buttons) || buttons.length === 0) {
+            res.status(400).json({ error: 'buttons must be a non-empty array' });
+            return;
+          }
+          const invalidButton = buttons.find(button => !(Object.values(NESButton) as string[]).includes(button));
+          if (invalidButton !== undefined) {
+            res.status(400).json({ error: `Invalid button: ${invalidButton}` });
+            return;
+          }
+          const duration_frames_chord = params?.duration_frames ?? 25;
+          if (typeof duration_frames_chord !== 'number' || duration_frames_chord <= 0) {
+            res.status(400).json({ error: 'Invalid duration_frames for press_buttons' });
+            return;
+          }
+          result = await emulatorService.pressButtons(buttons as NESButton[], duration_frames_chord, player);
           break;
         default:
           if (tool.startsWith('press_')) {
@@ -722,8 +1116,7 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
               res.status(400).json({ error: 'Invalid duration_frames for press' });
               return;
             }
-            emulatorService.pressButton(buttonName as NESButton, duration_frames_press);
-            result = emulatorService.getScreen();
+            result = await emulatorService.pressButton(buttonName as NESButton, duration_frames_press, player);
           } else {
             res.status(400).json({ error: `Unknown tool: ${tool}` });
             return;
@@ -742,24 +1135,52 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
 
   app.get('/api/roms', (req: Request, res: Response) => {
     try {
-      const romsDir = path.join(process.cwd(), 'roms');
-      if (!fs.existsSync(romsDir)) {
-        fs.mkdirSync(romsDir);
-      }
-      const romFiles = fs.readdirSync(romsDir)
-        .filter(file => file.endsWith('.nes'))
-        .map(file => ({
-          name: file,
-          path: path.join(romsDir, file)
-        }));
-      res.json(romFiles);
+      const query = req.query.q ?? req.query.query;
+      const sort = req.query.sort === 'last_played' ? 'last_played' : 'title';
+      res.json(listRomLibrary({
+        query: typeof query === 'string' && query ? query : undefined,
+        mapper: typeof req.query.mapper === 'string' && req.query.mapper ? parseInt(req.query.mapper, 10) : undefined,
+        supported: req.query.supported === 'true' ? true : req.query.supported === 'false' ? false : undefined,
+        sort
+      }));
     } catch (error) {
       log.error('Error getting ROM list:', error);
       res.status(500).json({ error: 'Failed to get ROM list' });
     }
   });
 
+  // Cheat list for the browser emulator, plus the global on/off toggle
+  app.get('/api/cheats', (req: Request, res: Response) => {
+    const emulatorService = emulatorFor(req, res);
+    if (!emulatorService) return;
+    res.json({
+      enabled: emulatorService.areCheatsEnabled(),
+      cheats: emulatorService.isRomLoaded() ? emulatorService.listCheats() : []
+    });
+  });
+
+  app.post('/api/cheats', (req: Request, res: Response) => {
+    const emulatorService = emulatorFor(req, res);
+    if (!emulatorService) return;
+    const enabled = req.body?.enabled;
+    if (typeof enabled !== 'boolean') {
+      res.status(400).json({ error: 'enabled must be a boolean' });
+      return;
+    }
+    emulatorService.setCheatsEnabled(enabled);
+    res.json({
+      enabled: emulatorService.areCheatsEnabled(),
+      cheats: emulatorService.isRomLoaded() ? emulatorService.listCheats() : []
+    });
+  });
+
+  app.get('/api/sessions', (req: Request, res: Response) => {
+    res.json(listSessions());
+  });
+
   app.get('/api/status', (req: Request, res: Response) => {
+    const emulatorService = emulatorFor(req, res);
+    if (!emulatorService) return;
     try {
       const romLoaded = emulatorService.isRomLoaded();
       res.json({
@@ -776,18 +1197,10 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
 
 export function setupRomSelectionUI(app: express.Application, emulatorService: EmulatorService): void {
   app.get('/', (req: Request, res: Response) => {
-    const romsDir = path.join(process.cwd(), 'roms');
-    let romFiles: { name: string; path: string }[] = [];
+    const search = typeof req.query.q === 'string' ? req.query.q : '';
+    let romFiles: RomLibraryEntry[] = [];
     try {
-      if (!fs.existsSync(romsDir)) {
-        fs.mkdirSync(romsDir);
-      }
-      romFiles = fs.readdirSync(romsDir)
-        .filter(file => file.endsWith('.nes'))
-        .map(file => ({
-          name: file,
-          path: path.join('roms', file)
-        }));
+      romFiles = listRomLibrary({ query: search || undefined });
     } catch (error) {
       log.error("Error reading ROM directory:", error);
     }
@@ -832,6 +1245,13 @@ export function setupRomSelectionUI(app: express.Application, emulatorService: E
     }
     .rom-item:hover { background: rgba(204,27,44,0.2); color: #fff; padding-left: 20px; }
     .rom-item:last-child { border-bottom: none; }
+    .rom-meta { display: block; margin-top: 5px; font-size: 5px; color: #999; }
+    .rom-item.unsupported { color: #888; }
+    .rom-search { display: flex; gap: 8px; margin-bottom: 12px; }
+    .rom-search input {
+      flex: 1; font-family: 'Press Start 2P', monospace; font-size: 7px; padding: 6px 8px;
+      background: #333; color: #eee; border: 1px solid #666; border-radius: 4px;
+    }
     .no-roms { text-align: center; font-size: 7px; color: #888; padding: 20px; line-height: 1.8; }
     .upload-area { border: 2px dashed #555; border-radius: 6px; padding: 16px; text-align: center; }
     .upload-area form { display: flex; flex-direction: column; align-items: center; gap: 10px; }
@@ -852,29 +1272,74 @@ export function setupRomSelectionUI(app: express.Application, emulatorService: E
       <div class="cart-subtitle">SELECT ROM CARTRIDGE</div>
     </div>
     <div class="cart-stripe"></div>
+    <form class="rom-search" action="/" method="get">
+      ${req.query.session ? `<input type="hidden" name="session" value="${escapeHtml(String(req.query.session))}" />` : ''}
+      <input type="search" name="q" value="${escapeHtml(search)}" placeholder="SEARCH" />
+      <button type="submit" class="upload-btn">FIND</button>
+    </form>
     <div class="rom-list">
       ${romFiles.length > 0
         ? romFiles.map(rom => `
-          <div class="rom-item" onclick="selectRom('${rom.path.replace(/\\/g, '\\\\')}')">
-            ${rom.name}
+          <div class="rom-item${rom.mapperSupported === false ? ' unsupported' : ''}" onclick="selectRom('${rom.path.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}')">
+            ${escapeHtml(rom.title)}
+            <span class="rom-meta">${rom.error
+              ? 'INVALID ROM'
+              : `MAPPER ${rom.mapper}${rom.mapperSupported ? '' : ' (UNSUPPORTED)'}`}</span>
           </div>`).join('')
-        : '<p class="no-roms">No ROM files found.<br>Drop a .nes file below.</p>'
+        : search
+          ? '<p class="no-roms">No ROMs match your search.</p>'
+          : '<p class="no-roms">No ROM files found.<br>Drop a .nes or .zip file below.</p>'
       }
     </div>
     <div class="upload-area">
-      <form action="/upload" method="post" enctype="multipart/form-data">
+      <form action="/upload${sessionQuery(req)}" method="post" enctype="multipart/form-data">
         <span class="upload-label">UPLOAD ROM</span>
-        <input type="file" name="rom" accept=".nes" required />
+        <input type="file" name="rom" accept=".nes,.zip" required />
+        <span class="upload-label">PATCH (OPTIONAL)</span>
+        <input type="file" name="patch" accept=".ips,.bps,.ups" />
         <button type="submit" class="upload-btn">INSERT</button>
       </form>
     </div>
   </div>
   <script>
     function selectRom(romPath) {
-      window.location.href = '/nes?rom=' + encodeURIComponent(romPath);
+      window.location.href = '/nes?rom=' + encodeURIComponent(romPath) + '${sessionQuery(req, '&')}';
     }
   </script>
 </body>
 </html>`);
   });
 }
+
+/**
+ * Handle ROM uploads from the ROM selection page. A patch uploaded with a ROM is renamed to
+ * match it, so it is applied whenever the ROM is loaded; a patch that cannot be paired is
+ * deleted rather than left in roms/.
+ */
+export function setupRomUpload(app: express.Application): void {
+  const storage = multer.diskStorage({
+    destination: (req, file, cb) => {
+      cb(null, getRomsDir());
+    },
+    filename: (req, file, cb) => {
+      cb(null, file.originalname);
+    }
+  });
+  const upload = multer({ storage });
+
+  app.post('/upload', upload.fields([{ name: 'rom', maxCount: 1 }, { name: 'patch', maxCount: 1 }]), (req: Request, res: Response) => {
+    const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+    const rom = files?.rom?.[0];
+    const patch = files?.patch?.[0];
+    if (patch) {
+      try {
+        pairUploadedPatch(rom?.path, patch.path);
+      } catch (error) {
+        log.error('Error saving uploaded patch:', error instanceof Error ? error.message : String(error));
+        res.status(400).send(error instanceof Error ? error.message : String(error));
+        return;
+      }
+    }
+    res.redirect(`/${sessionQuery(req)}`);
+  });
+}
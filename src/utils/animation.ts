@@ -0,0 +1,248 @@
+import * as zlib from 'zlib';
+import { ClipFormat } from '../types';
+import { crc32 } from './crc32';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const GIF_MAX_CODE = 4096;
+
+export const CLIP_MIME_TYPES: Record<ClipFormat, string> = {
+  gif: 'image/gif',
+  apng: 'image/apng'
+};
+
+/**
+ * Nearest-neighbour integer upscale of packed pixels
+ */
+function scalePixels(pixels: Uint8Array, width: number, height: number, bytesPerPixel: number, scale: number): Buffer {
+  const input = Buffer.from(pixels.buffer, pixels.byteOffset, pixels.byteLength);
+  if (scale === 1) {
+    return input;
+  }
+  const outStride = width * scale * bytesPerPixel;
+  const out = Buffer.alloc(outStride * height * scale);
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * scale * outStride;
+    for (let x = 0; x < width; x++) {
+      const src = (y * width + x) * bytesPerPixel;
+      for (let i = 0; i < scale; i++) {
+        input.copy(out, rowStart + (x * scale + i) * bytesPerPixel, src, src + bytesPerPixel);
+      }
+    }
+    // Repeat the widened row for the remaining lines of this source row
+    for (let i = 1; i < scale; i++) {
+      out.copyWithin(rowStart + i * outStride, rowStart, rowStart + outStride);
+    }
+  }
+  return out;
+}
+
+/**
+ * Encode RGB frames as a looping animated GIF, upscaled by `scale`. `frameDuration` is in
+ * seconds; GIF delays are whole centiseconds, so they are rounded without drifting.
+ */
+export function encodeGif(frames: Buffer[], width: number, height: number, scale: number, frameDuration: number): Buffer {
+  const { palette, indexFrames } = buildPalette(frames);
+  // The color table size is a power of two, at least 2 entries
+  let tableBits = 1;
+  while (1 << tableBits < palette.length) {
+    tableBits++;
+  }
+  const minCodeSize = Math.max(2, tableBits);
+
+  const header = Buffer.alloc(13);
+  header.write('GIF89a', 0, 'ascii');
+  header.writeUInt16LE(width * scale, 6);
+  header.writeUInt16LE(height * scale, 8);
+  header[10] = 0x80 | 0x70 | (tableBits - 1);
+
+  const colorTable = Buffer.alloc(3 << tableBits);
+  palette.forEach((color, i) => {
+    colorTable[i * 3] = color >> 16;
+    colorTable[i * 3 + 1] = (color >> 8) & 0xff;
+    colorTable[i * 3 + 2] = color & 0xff;
+  });
+
+  // NETSCAPE2.0 application extension: loop forever
+  const loop = Buffer.from([0x21, 0xff, 0x0b, ...Buffer.from('NETSCAPE2.0', 'ascii'), 0x03, 0x01, 0x00, 0x00, 0x00]);
+
+  const parts: Buffer[] = [header, colorTable, loop];
+  indexFrames.forEach((indices, i) => {
+    const delay = Math.round((i + 1) * frameDuration * 100) - Math.round(i * frameDuration * 100);
+    const control = Buffer.from([0x21, 0xf9, 0x04, 0x04, delay & 0xff, delay >> 8, 0x00, 0x00]);
+    const descriptor = Buffer.alloc(10);
+    descriptor[0] = 0x2c;
+    descriptor.writeUInt16LE(width * scale, 5);
+    descriptor.writeUInt16LE(height * scale, 7);
+    const data = lzwEncode(scalePixels(indices, width, height, 1, scale), minCodeSize);
+    parts.push(control, descriptor, Buffer.from([minCodeSize]), toSubBlocks(data));
+  });
+  parts.push(Buffer.from([0x3b]));
+  return Buffer.concat(parts);
+}
+
+/**
+ * Encode RGB frames as a looping APNG, upscaled by `scale`, each shown for
+ * `frameDelayNum / frameDelayDen` seconds
+ */
+export function encodeApng(
+  frames: Buffer[],
+  width: number,
+  height: number,
+  scale: number,
+  frameDelayNum: number,
+  frameDelayDen: number
+): Buffer {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width * scale, 0);
+  ihdr.writeUInt32BE(height * scale, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 2; // truecolor RGB
+
+  const actl = Buffer.alloc(8);
+  actl.writeUInt32BE(frames.length, 0);
+  actl.writeUInt32BE(0, 4); // loop forever
+
+  const chunks = [pngChunk('IHDR', ihdr), pngChunk('acTL', actl)];
+  let sequence = 0;
+  frames.forEach((rgb, i) => {
+    const fctl = Buffer.alloc(26);
+    fctl.writeUInt32BE(sequence++, 0);
+    fctl.writeUInt32BE(width * scale, 4);
+    fctl.writeUInt32BE(height * scale, 8);
+    fctl.writeUInt16BE(frameDelayNum, 20);
+    fctl.writeUInt16BE(frameDelayDen, 22);
+    chunks.push(pngChunk('fcTL', fctl));
+
+    const data = deflateScanlines(scalePixels(rgb, width, height, 3, scale), width * scale, height * scale);
+    if (i === 0) {
+      chunks.push(pngChunk('IDAT', data));
+    } else {
+      const sequenceNumber = Buffer.alloc(4);
+      sequenceNumber.writeUInt32BE(sequence++, 0);
+      chunks.push(pngChunk('fdAT', Buffer.concat([sequenceNumber, data])));
+    }
+  });
+  chunks.push(pngChunk('IEND', Buffer.alloc(0)));
+  return Buffer.concat([PNG_SIGNATURE, ...chunks]);
+}
+
+/**
+ * Build one palette for all frames. NES frames rarely use more than a few dozen colors,
+ * but color emphasis can push a long clip past 256, so low bits are dropped until it fits.
+ */
+function buildPalette(frames: Buffer[]): { palette: number[]; indexFrames: Uint8Array[] } {
+  for (let shift = 0; ; shift++) {
+    const mask = (0xff << shift) & 0xff;
+    const lookup = new Map<number, number>();
+    const palette: number[] = [];
+    const indexFrames: Uint8Array[] = [];
+    let fits = true;
+
+    for (const rgb of frames) {
+      const indices = new Uint8Array(rgb.length / 3);
+      for (let p = 0; p < indices.length; p++) {
+        const color = ((rgb[p * 3] & mask) << 16) | ((rgb[p * 3 + 1] & mask) << 8) | (rgb[p * 3 + 2] & mask);
+        let index = lookup.get(color);
+        if (index === undefined) {
+          if (palette.length === 256) {
+            fits = false;
+            break;
+          }
+          index = palette.length;
+          lookup.set(color, index);
+          palette.push(color);
+        }
+        indices[p] = index;
+      }
+      if (!fits) {
+        break;
+      }
+      indexFrames.push(indices);
+    }
+    if (fits) {
+      return { palette, indexFrames };
+    }
+  }
+}
+
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Buffer {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      out.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === GIF_MAX_CODE) {
+      // Table full: start over rather than keep coding with a stale table
+      emit(clearCode);
+      table = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) {
+        codeSize++;
+      }
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) {
+    out.push(bitBuffer & 0xff);
+  }
+  return Buffer.from(out);
+}
+
+// GIF image data is split into length-prefixed blocks of at most 255 bytes
+function toSubBlocks(data: Buffer): Buffer {
+  const parts: Buffer[] = [];
+  for (let offset = 0; offset < data.length; offset += 255) {
+    const block = data.subarray(offset, offset + 255);
+    parts.push(Buffer.from([block.length]), block);
+  }
+  parts.push(Buffer.from([0x00]));
+  return Buffer.concat(parts);
+}
+
+function deflateScanlines(rgb: Buffer, width: number, height: number): Buffer {
+  const stride = width * 3;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    // Filter type 0 (none) for every row
+    rgb.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+  return zlib.deflateSync(raw);
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const chunk = Buffer.alloc(12 + data.length);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, 'ascii');
+  data.copy(chunk, 8);
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+  return chunk;
+}
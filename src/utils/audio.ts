@@ -0,0 +1,46 @@
+import { AudioClip } from '../types';
+
+const WAV_HEADER_SIZE = 44;
+const BYTES_PER_SAMPLE = 2;
+
+/**
+ * Encode a clip as a 16-bit PCM WAV file
+ */
+export function encodeWav(clip: AudioClip): Buffer {
+  const dataSize = clip.samples.length * BYTES_PER_SAMPLE;
+  const wav = Buffer.alloc(WAV_HEADER_SIZE + dataSize);
+
+  wav.write('RIFF', 0, 'ascii');
+  wav.writeUInt32LE(WAV_HEADER_SIZE - 8 + dataSize, 4);
+  wav.write('WAVE', 8, 'ascii');
+  wav.write('fmt ', 12, 'ascii');
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20); // PCM
+  wav.writeUInt16LE(clip.channels, 22);
+  wav.writeUInt32LE(clip.sampleRate, 24);
+  wav.writeUInt32LE(clip.sampleRate * clip.channels * BYTES_PER_SAMPLE, 28);
+  wav.writeUInt16LE(clip.channels * BYTES_PER_SAMPLE, 32);
+  wav.writeUInt16LE(BYTES_PER_SAMPLE * 8, 34);
+  wav.write('data', 36, 'ascii');
+  wav.writeUInt32LE(dataSize, 40);
+
+  for (let i = 0; i < clip.samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, clip.samples[i]));
+    wav.writeInt16LE(Math.round(sample * 32767), WAV_HEADER_SIZE + i * BYTES_PER_SAMPLE);
+  }
+  return wav;
+}
+
+/**
+ * Peak and RMS level of a clip, so callers can tell silence from sound without listening
+ */
+export function measureLevels(clip: AudioClip): { peak: number; rms: number } {
+  let peak = 0;
+  let sumSquares = 0;
+  for (const sample of clip.samples) {
+    peak = Math.max(peak, Math.abs(sample));
+    sumSquares += sample * sample;
+  }
+  const rms = clip.samples.length ? Math.sqrt(sumSquares / clip.samples.length) : 0;
+  return { peak: Math.min(1, peak), rms: Math.min(1, rms) };
+}
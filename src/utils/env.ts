@@ -0,0 +1,18 @@
+import { log } from './logger';
+
+/**
+ * Read an integer setting from the environment. Values that aren't whole numbers
+ * in [min, max] are logged and replaced with the fallback.
+ */
+export function envInteger(name: string, fallback: number, min: number, max: number = Number.MAX_SAFE_INTEGER): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    log.warn(`Ignoring ${name}=${raw}: expected a whole number from ${min}${max === Number.MAX_SAFE_INTEGER ? ' up' : ` to ${max}`}, using ${fallback}`);
+    return fallback;
+  }
+  return value;
+}
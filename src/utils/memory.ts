@@ -0,0 +1,63 @@
+import { MemoryValueType } from '../types';
+
+/**
+ * Parse an address given as a number or a hex string ("$07FF", "0x07FF", "07ff")
+ */
+export function parseAddress(address: number | string): number {
+  if (typeof address === 'number') {
+    return address;
+  }
+  const trimmed = address.trim().replace(/^\$|^0x/i, '');
+  if (!/^[0-9a-f]+$/i.test(trimmed)) {
+    throw new Error(`Invalid address: ${address}`);
+  }
+  return parseInt(trimmed, 16);
+}
+
+/**
+ * Format an address as a 4-digit hex string
+ */
+export function formatAddress(address: number): string {
+  return address.toString(16).toUpperCase().padStart(4, '0');
+}
+
+/**
+ * Render bytes as a classic 16-bytes-per-line hex dump
+ */
+export function hexDump(bytes: number[], baseAddress: number): string {
+  const lines: string[] = [];
+  for (let offset = 0; offset < bytes.length; offset += 16) {
+    const row = bytes.slice(offset, offset + 16);
+    const hex = row.map(b => b.toString(16).toUpperCase().padStart(2, '0')).join(' ');
+    lines.push(`${formatAddress(baseAddress + offset)}: ${hex}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Decode a packed BCD byte (two decimal digits); null if a nibble is not 0-9
+ */
+export function decodeBcd(byte: number): number | null {
+  const hi = byte >> 4;
+  const lo = byte & 0x0f;
+  return hi > 9 || lo > 9 ? null : hi * 10 + lo;
+}
+
+/**
+ * Decode raw bytes into typed values
+ */
+export function decodeValues(bytes: number[], valueType: MemoryValueType): (number | null)[] {
+  switch (valueType) {
+    case 'u16le': {
+      const values: number[] = [];
+      for (let i = 0; i + 1 < bytes.length; i += 2) {
+        values.push(bytes[i] | (bytes[i + 1] << 8));
+      }
+      return values;
+    }
+    case 'bcd':
+      return bytes.map(decodeBcd);
+    default:
+      return bytes.slice();
+  }
+}
@@ -0,0 +1,261 @@
+import { crc32 } from './crc32';
+
+export type PatchFormat = 'ips' | 'bps' | 'ups';
+
+// BPS and UPS patches end with the CRC-32s of the source, the target and the patch itself
+const FOOTER_SIZE = 12;
+// IPS offsets are 24-bit, so this offset can't be a record and marks the end instead
+const IPS_EOF = 0x454f46;
+
+/**
+ * Identify a patch from its magic bytes
+ */
+export function detectPatchFormat(patch: Buffer): PatchFormat | undefined {
+  const magic = patch.toString('latin1', 0, 5);
+  if (magic === 'PATCH') {
+    return 'ips';
+  }
+  if (magic.startsWith('BPS1')) {
+    return 'bps';
+  }
+  if (magic.startsWith('UPS1')) {
+    return 'ups';
+  }
+  return undefined;
+}
+
+/**
+ * Apply an IPS, BPS or UPS patch to a ROM image and return the patched copy.
+ * BPS and UPS patches are rejected unless the source, target and patch checksums all match.
+ */
+export function applyPatch(source: Buffer, patch: Buffer): Buffer {
+  switch (detectPatchFormat(patch)) {
+    case 'ips':
+      return applyIpsPatch(source, patch);
+    case 'bps':
+      return applyBpsPatch(source, patch);
+    case 'ups':
+      return applyUpsPatch(source, patch);
+    default:
+      throw new Error('Unrecognized patch format (expected IPS, BPS or UPS)');
+  }
+}
+
+/**
+ * Whether a patch was made for this ROM. BPS and UPS patches record the size and CRC-32 of
+ * their source; IPS patches record nothing, so they are assumed to match.
+ */
+export function patchMatchesSource(source: Buffer, patch: Buffer): boolean {
+  const format = detectPatchFormat(patch);
+  if (format === 'ips') {
+    return true;
+  }
+  if (!format) {
+    return false;
+  }
+  const name = format.toUpperCase();
+  const { sourceCrc } = readFooter(patch, name);
+  const sourceSize = new VarintReader(patch, 4, patch.length - FOOTER_SIZE, name).read();
+  return source.length === sourceSize && crc32(source) === sourceCrc;
+}
+
+/**
+ * @see https://zerosoft.zophar.net/ips.php
+ */
+function applyIpsPatch(source: Buffer, patch: Buffer): Buffer {
+  let target = Buffer.from(source);
+  let offset = 5;
+
+  const ensureSize = (size: number) => {
+    if (size > target.length) {
+      const grown = Buffer.alloc(size);
+      target.copy(grown);
+      target = grown;
+    }
+  };
+
+  for (;;) {
+    if (offset + 3 > patch.length) {
+      throw new Error('Corrupt IPS patch: missing EOF marker');
+    }
+    const address = patch.readUIntBE(offset, 3);
+    offset += 3;
+    if (address === IPS_EOF) {
+      break;
+    }
+    if (offset + 2 > patch.length) {
+      throw new Error('Corrupt IPS patch: truncated record');
+    }
+    const size = patch.readUInt16BE(offset);
+    offset += 2;
+
+    if (size > 0) {
+      if (offset + size > patch.length) {
+        throw new Error('Corrupt IPS patch: truncated record');
+      }
+      ensureSize(address + size);
+      patch.copy(target, address, offset, offset + size);
+      offset += size;
+    } else {
+      // Run-length record: a 16-bit count and the byte to repeat
+      if (offset + 3 > patch.length) {
+        throw new Error('Corrupt IPS patch: truncated RLE record');
+      }
+      const count = patch.readUInt16BE(offset);
+      ensureSize(address + count);
+      target.fill(patch[offset + 2], address, address + count);
+      offset += 3;
+    }
+  }
+
+  // Some patchers append a 24-bit size to truncate the output to
+  if (offset + 3 <= patch.length) {
+    const truncateTo = patch.readUIntBE(offset, 3);
+    target = truncateTo < target.length ? target.subarray(0, truncateTo) : target;
+  }
+  return target;
+}
+
+/**
+ * @see https://www.romhacking.net/documents/746/
+ */
+function applyBpsPatch(source: Buffer, patch: Buffer): Buffer {
+  const footer = readFooter(patch, 'BPS');
+  const reader = new VarintReader(patch, 4, patch.length - FOOTER_SIZE, 'BPS');
+  const sourceSize = reader.read();
+  const targetSize = reader.read();
+  const metadataSize = reader.read();
+  reader.offset += metadataSize;
+  checkSource(source, sourceSize, footer.sourceCrc, 'BPS');
+
+  const target = Buffer.alloc(targetSize);
+  let outputOffset = 0;
+  let sourceRelativeOffset = 0;
+  let targetRelativeOffset = 0;
+
+  while (reader.offset < reader.end) {
+    const data = reader.read();
+    const command = data & 3;
+    const length = Math.floor(data / 4) + 1;
+    if (outputOffset + length > targetSize) {
+      throw new Error('Corrupt BPS patch: writes past the end of the target');
+    }
+
+    switch (command) {
+      case 0: // SourceRead: copy from the same offset in the source
+        source.copy(target, outputOffset, outputOffset, outputOffset + length);
+        outputOffset += length;
+        break;
+      case 1: // TargetRead: copy bytes stored in the patch
+        if (reader.offset + length > reader.end) {
+          throw new Error('Corrupt BPS patch: truncated TargetRead');
+        }
+        patch.copy(target, outputOffset, reader.offset, reader.offset + length);
+        reader.offset += length;
+        outputOffset += length;
+        break;
+      case 2: // SourceCopy: copy from a relative offset in the source
+        sourceRelativeOffset += reader.readSigned();
+        for (let i = 0; i < length; i++) {
+          target[outputOffset++] = source[sourceRelativeOffset++];
+        }
+        break;
+      case 3: // TargetCopy: copy from earlier in the target, one byte at a time so runs can overlap
+        targetRelativeOffset += reader.readSigned();
+        for (let i = 0; i < length; i++) {
+          target[outputOffset++] = target[targetRelativeOffset++];
+        }
+        break;
+    }
+  }
+
+  checkTarget(target, targetSize, footer.targetCrc, 'BPS');
+  return target;
+}
+
+/**
+ * @see https://www.romhacking.net/documents/392/
+ */
+function applyUpsPatch(source: Buffer, patch: Buffer): Buffer {
+  const footer = readFooter(patch, 'UPS');
+  const reader = new VarintReader(patch, 4, patch.length - FOOTER_SIZE, 'UPS');
+  const sourceSize = reader.read();
+  const targetSize = reader.read();
+  checkSource(source, sourceSize, footer.sourceCrc, 'UPS');
+
+  const target = Buffer.alloc(targetSize);
+  source.copy(target, 0, 0, Math.min(sourceSize, targetSize));
+  let outputOffset = 0;
+
+  while (reader.offset < reader.end) {
+    outputOffset += reader.read();
+    // XOR bytes up to and including a zero terminator
+    for (;;) {
+      if (reader.offset >= reader.end) {
+        throw new Error('Corrupt UPS patch: unterminated hunk');
+      }
+      const xor = patch[reader.offset++];
+      if (outputOffset < targetSize) {
+        target[outputOffset] = (outputOffset < sourceSize ? source[outputOffset] : 0) ^ xor;
+      }
+      outputOffset++;
+      if (xor === 0) {
+        break;
+      }
+    }
+  }
+
+  checkTarget(target, targetSize, footer.targetCrc, 'UPS');
+  return target;
+}
+
+function readFooter(patch: Buffer, format: string): { sourceCrc: number; targetCrc: number } {
+  if (patch.length < 4 + FOOTER_SIZE) {
+    throw new Error(`Corrupt ${format} patch: too short`);
+  }
+  const footer = patch.length - FOOTER_SIZE;
+  if (crc32(patch.subarray(0, patch.length - 4)) !== patch.readUInt32LE(footer + 8)) {
+    throw new Error(`${format} patch checksum mismatch: the patch file is corrupt`);
+  }
+  return { sourceCrc: patch.readUInt32LE(footer), targetCrc: patch.readUInt32LE(footer + 4) };
+}
+
+function checkSource(source: Buffer, expectedSize: number, expectedCrc: number, format: string): void {
+  if (source.length !== expectedSize || crc32(source) !== expectedCrc) {
+    throw new Error(`${format} patch is for a different ROM (source checksum mismatch)`);
+  }
+}
+
+function checkTarget(target: Buffer, expectedSize: number, expectedCrc: number, format: string): void {
+  if (target.length !== expectedSize || crc32(target) !== expectedCrc) {
+    throw new Error(`${format} patch produced a bad ROM (target checksum mismatch)`);
+  }
+}
+
+// The variable-length integers shared by BPS and UPS
+class VarintReader {
+  constructor(private data: Buffer, public offset: number, public end: number, private format: string) {}
+
+  read(): number {
+    let value = 0;
+    let shift = 1;
+    for (;;) {
+      if (this.offset >= this.end) {
+        throw new Error(`Corrupt ${this.format} patch: truncated number`);
+      }
+      const byte = this.data[this.offset++];
+      value += (byte & 0x7f) * shift;
+      if (byte & 0x80) {
+        return value;
+      }
+      shift *= 128;
+      value += shift;
+    }
+  }
+
+  // Relative offsets store the sign in the low bit
+  readSigned(): number {
+    const value = this.read();
+    return (value & 1 ? -1 : 1) * Math.floor(value / 2);
+  }
+}
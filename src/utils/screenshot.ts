@@ -0,0 +1,111 @@
+import sharp from 'sharp';
+import { ScreenshotFormat, ScreenshotOptions } from '../types';
+import { envInteger } from './env';
+import { log } from './logger';
+
+const SCREEN_WIDTH = 256;
+const SCREEN_HEIGHT = 240;
+// Lines hidden by overscan at the top and bottom of the picture
+const OVERSCAN_LINES = 8;
+
+// Limits shared by the SCREENSHOT_* settings, the tool schemas and /screen query parameters
+export const SCREENSHOT_FORMATS = ['png', 'jpeg', 'webp'] as const;
+export const MAX_SCREENSHOT_SCALE = 8;
+export const MAX_SCREENSHOT_QUALITY = 100;
+
+const MIME_TYPES: Record<ScreenshotFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+function envBoolean(value: string | undefined, fallback: boolean): boolean {
+  return value === undefined ? fallback : value === 'true' || value === '1';
+}
+
+export function isScreenshotFormat(value: unknown): value is ScreenshotFormat {
+  return SCREENSHOT_FORMATS.includes(value as ScreenshotFormat);
+}
+
+function envFormat(value: string | undefined): ScreenshotFormat {
+  if (value === undefined || value === '') {
+    return 'png';
+  }
+  if (!isScreenshotFormat(value)) {
+    log.warn(`Ignoring SCREENSHOT_FORMAT=${value}: expected one of ${SCREENSHOT_FORMATS.join(', ')}, using png`);
+    return 'png';
+  }
+  return value;
+}
+
+// Read once, so a bad setting is reported once rather than on every screenshot
+let defaultOptions: ScreenshotOptions | undefined;
+
+/**
+ * Server-wide screenshot defaults, from the SCREENSHOT_* environment variables
+ */
+export function getDefaultScreenshotOptions(): ScreenshotOptions {
+  defaultOptions ??= {
+    scale: envInteger('SCREENSHOT_SCALE', 1, 1, MAX_SCREENSHOT_SCALE),
+    cropOverscan: envBoolean(process.env.SCREENSHOT_CROP_OVERSCAN, false),
+    grayscale: envBoolean(process.env.SCREENSHOT_GRAYSCALE, false),
+    format: envFormat(process.env.SCREENSHOT_FORMAT),
+    quality: envInteger('SCREENSHOT_QUALITY', 80, 1, MAX_SCREENSHOT_QUALITY),
+    includeImage: envBoolean(process.env.SCREENSHOT_INCLUDE_IMAGE, true)
+  };
+  return { ...defaultOptions };
+}
+
+/**
+ * Fill in per-call overrides on top of the server-wide defaults
+ */
+export function resolveScreenshotOptions(overrides: Partial<ScreenshotOptions> = {}): ScreenshotOptions {
+  const defined = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+  return { ...getDefaultScreenshotOptions(), ...defined };
+}
+
+/**
+ * Render a 256x240 RGB frame as an image
+ * @param rgb Frame pixels, 3 bytes per pixel
+ */
+export async function encodeScreenshot(
+  rgb: Buffer,
+  options: ScreenshotOptions
+): Promise<{ data: Buffer; mimeType: string }> {
+  let image = sharp(rgb, { raw: { width: SCREEN_WIDTH, height: SCREEN_HEIGHT, channels: 3 } });
+
+  const height = options.cropOverscan ? SCREEN_HEIGHT - 2 * OVERSCAN_LINES : SCREEN_HEIGHT;
+  if (options.cropOverscan) {
+    image = image.extract({ left: 0, top: OVERSCAN_LINES, width: SCREEN_WIDTH, height });
+  }
+  if (options.scale > 1) {
+    image = image.resize(SCREEN_WIDTH * options.scale, height * options.scale, { kernel: 'nearest' });
+  }
+  if (options.grayscale) {
+    image = image.grayscale();
+  }
+
+  switch (options.format) {
+    case 'jpeg':
+      image = image.jpeg({ quality: options.quality });
+      break;
+    case 'webp':
+      image = image.webp({ quality: options.quality });
+      break;
+    default:
+      image = image.png();
+  }
+
+  return { data: await image.toBuffer(), mimeType: MIME_TYPES[options.format] };
+}
+
+/**
+ * Encode RGB pixels of any size as a PNG, upscaled with nearest-neighbour filtering
+ */
+export async function encodePng(rgb: Buffer, width: number, height: number, scale: number = 1): Promise<Buffer> {
+  let image = sharp(rgb, { raw: { width, height, channels: 3 } });
+  if (scale > 1) {
+    image = image.resize(width * scale, height * scale, { kernel: 'nearest' });
+  }
+  return image.png().toBuffer();
+}
@@ -0,0 +1,101 @@
+import * as zlib from 'zlib';
+import { crc32 } from './crc32';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+// The end-of-central-directory record is 22 bytes plus a comment of up to 64KB
+const EOCD_SIZE = 22;
+const MAX_EOCD_SEARCH = EOCD_SIZE + 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  encrypted: boolean;
+  crc32: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * List the files in a zip archive from its central directory (directories are skipped)
+ * @see https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT
+ */
+export function listZipEntries(data: Buffer): ZipEntry[] {
+  let eocd = -1;
+  for (let i = data.length - EOCD_SIZE; i >= Math.max(0, data.length - MAX_EOCD_SEARCH); i--) {
+    if (data.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a zip archive: no end of central directory record');
+  }
+
+  const count = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt zip archive: bad central directory entry');
+    }
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (!name.endsWith('/')) {
+      entries.push({
+        name,
+        method: data.readUInt16LE(offset + 10),
+        encrypted: (data.readUInt16LE(offset + 8) & 1) !== 0,
+        crc32: data.readUInt32LE(offset + 16),
+        compressedSize: data.readUInt32LE(offset + 20),
+        size: data.readUInt32LE(offset + 24),
+        localHeaderOffset: data.readUInt32LE(offset + 42)
+      });
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * Extract one file from a zip archive and check its CRC-32. Only stored and deflated files are supported.
+ */
+export function readZipEntry(data: Buffer, entry: ZipEntry): Buffer {
+  if (entry.encrypted) {
+    throw new Error(`${entry.name} is encrypted`);
+  }
+
+  const header = entry.localHeaderOffset;
+  if (header + 30 > data.length || data.readUInt32LE(header) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt zip archive: bad local header for ${entry.name}`);
+  }
+  // The local header has its own name and extra field lengths
+  const start = header + 30 + data.readUInt16LE(header + 26) + data.readUInt16LE(header + 28);
+  const compressed = data.subarray(start, start + entry.compressedSize);
+
+  let contents: Buffer;
+  if (entry.method === METHOD_STORED) {
+    contents = Buffer.from(compressed);
+  } else if (entry.method === METHOD_DEFLATE) {
+    contents = zlib.inflateRawSync(compressed);
+  } else {
+    throw new Error(`${entry.name} uses unsupported compression method ${entry.method}`);
+  }
+
+  if (contents.length !== entry.size || crc32(contents) !== entry.crc32) {
+    throw new Error(`CRC mismatch extracting ${entry.name}`);
+  }
+  return contents;
+}
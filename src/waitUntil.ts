@@ -0,0 +1,74 @@
+import { WaitCondition, ScreenRegion } from './types';
+
+// What the conditions look at after each frame
+export interface WaitProbe {
+  readRam(address: number): number;
+  screenHash(): string;
+  regionHash(region: ScreenRegion): string;
+}
+
+/**
+ * Tracks a set of wait_until conditions across frames.
+ *
+ * Takes its baseline (RAM values, screen hash) when created; call check()
+ * after every frame to find the first condition that holds.
+ */
+export class WaitUntil {
+  private startScreenHash: string;
+  private lastScreenHash: string;
+  private staticFrames = 0;
+  private previousRam: (number | undefined)[];
+
+  constructor(
+    private conditions: WaitCondition[],
+    private probe: WaitProbe
+  ) {
+    this.startScreenHash = probe.screenHash();
+    this.lastScreenHash = this.startScreenHash;
+    this.previousRam = conditions.map(condition => (condition.type === 'ram' ? probe.readRam(condition.address) : undefined));
+  }
+
+  /**
+   * Evaluate the conditions against the current frame
+   * @returns Index of the first condition that holds, or undefined
+   */
+  check(): number | undefined {
+    const screenHash = this.probe.screenHash();
+    this.staticFrames = screenHash === this.lastScreenHash ? this.staticFrames + 1 : 0;
+    this.lastScreenHash = screenHash;
+
+    let fired: number | undefined;
+    this.conditions.forEach((condition, index) => {
+      if (fired === undefined && this.holds(condition, index, screenHash)) {
+        fired = index;
+      }
+    });
+    return fired;
+  }
+
+  private holds(condition: WaitCondition, index: number, screenHash: string): boolean {
+    switch (condition.type) {
+      case 'ram': {
+        const previous = this.previousRam[index]!;
+        const current = this.probe.readRam(condition.address);
+        this.previousRam[index] = current;
+        switch (condition.op) {
+          case 'equals':
+            return current === condition.value;
+          case 'not_equals':
+            return current !== condition.value;
+          case 'crosses':
+            return (previous < condition.value && current >= condition.value) ||
+              (previous > condition.value && current <= condition.value);
+        }
+        return false;
+      }
+      case 'screen_change':
+        return screenHash !== this.startScreenHash;
+      case 'screen_static':
+        return this.staticFrames >= condition.frames;
+      case 'region_hash':
+        return this.probe.regionHash(condition) === condition.hash;
+    }
+  }
+}
@@ -0,0 +1,40 @@
+'use strict';
+
+// 6502 snippets for the synthetic ROMs
+const LOOP = [0x58, 0x4c, 0x01, 0xe0]; // CLI; JMP $E001
+const INC_COUNTER = [0xe6, 0x10]; // INC $10
+const RTI = [0x40];
+
+/**
+ * Build an iNES image. Each 8KB PRG-ROM bank starts with its bank number and each 1KB
+ * CHR-ROM bank is filled with its bank number, so the mapped banks can be read back.
+ * `code` runs from reset at $E000 and `irq` is the IRQ handler at $E100.
+ */
+function buildRom(mapper, prgBanks16k, chrBanks8k, code, irq = RTI, flags6 = 0) {
+  const header = Buffer.alloc(16);
+  header.write('NES\x1a', 0, 'latin1');
+  header[4] = prgBanks16k;
+  header[5] = chrBanks8k;
+  header[6] = ((mapper & 0x0f) << 4) | flags6;
+  header[7] = mapper & 0xf0;
+
+  const prg = Buffer.alloc(prgBanks16k * 0x4000, 0xea);
+  for (let bank = 0; bank < prgBanks16k * 2; bank++) {
+    prg[bank * 0x2000] = bank;
+  }
+  const lastBank = prg.length - 0x2000;
+  Buffer.from(code).copy(prg, lastBank);
+  Buffer.from(irq).copy(prg, lastBank + 0x100);
+  prg[lastBank + 0x200] = RTI[0];
+  prg.writeUInt16LE(0xe200, prg.length - 6); // NMI
+  prg.writeUInt16LE(0xe000, prg.length - 4); // Reset
+  prg.writeUInt16LE(0xe100, prg.length - 2); // IRQ
+
+  const chr = Buffer.alloc(chrBanks8k * 0x2000);
+  for (let bank = 0; bank < chrBanks8k * 8; bank++) {
+    chr.fill(bank & 0xff, bank * 0x400, (bank + 1) * 0x400);
+  }
+  return Buffer.concat([header, prg, chr]).toString('latin1');
+}
+
+module.exports = { buildRom, LOOP, INC_COUNTER, RTI };
@@ -0,0 +1,556 @@
+'use strict';
+
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+const { NES } = require('../src/nes-core');
+const { buildRom, LOOP, INC_COUNTER, RTI } = require('./helpers/ines');
+
+function boot(romData) {
+  const nes = new NES({ onFrame() {}, onAudioSample() {}, emulateSound: false });
+  nes.loadROM(romData);
+  // Run the reset handler so later IRQ checks start from a clear line
+  nes.frame();
+  return nes;
+}
+
+function roundTrip(nes) {
+  const state = JSON.parse(JSON.stringify(nes.toJSON()));
+  const restored = boot(nes.romData);
+  restored.fromJSON(state);
+  return restored;
+}
+
+const write = (nes, address, value) => nes.mmap.write(address, value);
+const read = (nes, address) => nes.mmap.load(address);
+const prgAt = (nes, address) => nes.cpu.mem[address];
+const chrAt = (nes, address) => nes.ppu.vramMem[address];
+const nametables = (nes) => Array.from(nes.ppu.ntable1);
+
+// Whether the mapper is holding the CPU's IRQ line, without clocking its counter
+function irqLine(nes) {
+  nes.cpu.irqRequested = false;
+  nes.mmap.clockCpuCycles(0);
+  return nes.cpu.irqRequested;
+}
+
+// Run whole frames and return how many times the IRQ handler ran
+function countIrqs(nes, frames) {
+  nes.cpu.mem[0x10] = 0;
+  for (let i = 0; i < frames; i++) {
+    nes.frame();
+  }
+  return nes.cpu.mem[0x10];
+}
+
+describe('MMC5 (mapper 5)', () => {
+  const ACK = [0xad, 0x04, 0x52]; // LDA $5204
+  const data = buildRom(5, 8, 4, LOOP, [...INC_COUNTER, ...ACK, ...RTI], 2);
+
+  it('switches PRG-ROM banks in each PRG mode', () => {
+    const nes = boot(data);
+    // Power-up maps the last bank, which starts with the reset code, everywhere
+    for (const address of [0x8000, 0xa000, 0xc000, 0xe000]) {
+      assert.equal(prgAt(nes, address), LOOP[0]);
+    }
+    write(nes, 0x5100, 3);
+    write(nes, 0x5114, 0x83);
+    assert.equal(prgAt(nes, 0x8000), 3);
+
+    write(nes, 0x5100, 1);
+    write(nes, 0x5115, 0x84);
+    write(nes, 0x5117, 0x86);
+    assert.deepEqual([0x8000, 0xa000, 0xc000, 0xe000].map((a) => prgAt(nes, a)), [4, 5, 6, 7]);
+  });
+
+  it('maps writable PRG-RAM only when both protect registers allow it', () => {
+    const nes = boot(data);
+    write(nes, 0x5100, 3);
+    // Bit 7 clear maps PRG-RAM bank 1 at $A000
+    write(nes, 0x5115, 0x01);
+    write(nes, 0xa000, 0x55);
+    assert.equal(prgAt(nes, 0xa000), 0);
+
+    write(nes, 0x5102, 2);
+    write(nes, 0x5103, 1);
+    write(nes, 0xa000, 0x55);
+    write(nes, 0x5113, 1);
+    assert.equal(prgAt(nes, 0x6000), 0x55);
+  });
+
+  it('switches CHR-ROM banks in 1KB and 4KB modes', () => {
+    const nes = boot(data);
+    write(nes, 0x5101, 3);
+    for (let i = 0; i < 8; i++) {
+      write(nes, 0x5120 + i, 10 + i);
+    }
+    assert.equal(chrAt(nes, 0x0000), 10);
+    assert.equal(chrAt(nes, 0x1c00), 17);
+
+    write(nes, 0x5101, 1);
+    assert.equal(chrAt(nes, 0x0000), 20);
+    assert.equal(chrAt(nes, 0x1000), 4);
+  });
+
+  it('maps each nametable slot to CIRAM, ExRAM or the fill nametable', () => {
+    const nes = boot(data);
+    write(nes, 0x5105, 0xe4);
+    assert.deepEqual(nametables(nes), [0, 1, 2, 3]);
+
+    write(nes, 0x5c05, 0x21);
+    assert.equal(nes.ppu.nameTable[2].tile[5], 0x21);
+    write(nes, 0x5106, 0x33);
+    assert.equal(nes.ppu.nameTable[3].tile[500], 0x33);
+  });
+
+  it('multiplies $5205 by $5206', () => {
+    const nes = boot(data);
+    write(nes, 0x5205, 12);
+    write(nes, 0x5206, 30);
+    assert.equal(read(nes, 0x5205) | (read(nes, 0x5206) << 8), 360);
+  });
+
+  it('raises the scanline IRQ and acknowledges it on a $5204 read', () => {
+    const nes = boot(data);
+    nes.ppu.updateControlReg2(0x18);
+    write(nes, 0x5203, 100);
+    nes.frame();
+    assert.equal(nes.mmap.irqPending, true);
+    // Disabled IRQs are flagged but don't assert the line
+    assert.equal(irqLine(nes), false);
+
+    write(nes, 0x5204, 0x80);
+    assert.equal(irqLine(nes), true);
+    assert.equal(read(nes, 0x5204) & 0x80, 0x80);
+    assert.equal(irqLine(nes), false);
+    assert.equal(read(nes, 0x5204) & 0x80, 0);
+
+    // One IRQ per frame, acknowledged by the handler
+    assert.equal(countIrqs(nes, 10), 10);
+  });
+
+  it('keeps loaded battery RAM in PRG-RAM bank 0 across $5113 writes', () => {
+    const nes = boot(data);
+    nes.mmap.loadPrgRam([0x11, 0x22], 0x10);
+    assert.equal(prgAt(nes, 0x6010), 0x11);
+
+    write(nes, 0x5113, 1);
+    assert.equal(prgAt(nes, 0x6010), 0);
+    write(nes, 0x5113, 0);
+    assert.equal(prgAt(nes, 0x6011), 0x22);
+    // The battery RAM is bank 0 even while $6000 shows another bank
+    write(nes, 0x5113, 1);
+    assert.deepEqual(nes.mmap.getPrgRam().slice(0x10, 0x12), [0x11, 0x22]);
+  });
+
+  it('restores banks, PRG-RAM and the IRQ from a saved state', () => {
+    const nes = boot(data);
+    nes.ppu.updateControlReg2(0x18);
+    write(nes, 0x5100, 3);
+    write(nes, 0x5102, 2);
+    write(nes, 0x5103, 1);
+    write(nes, 0x5115, 0x01);
+    write(nes, 0xa000, 0x55);
+    write(nes, 0x5114, 0x83);
+    write(nes, 0x5203, 100);
+    write(nes, 0x5204, 0x80);
+
+    const restored = roundTrip(nes);
+    assert.equal(restored.mmap.prgRam[0x2000], 0x55);
+    assert.equal(restored.mmap.irqCompare, 100);
+    assert.equal(prgAt(restored, 0x8000), 3);
+    assert.equal(countIrqs(restored, 10), 10);
+  });
+});
+
+for (const [mapper, name, prgBank] of [
+  [9, 'MMC2 (mapper 9)', 3],
+  [10, 'MMC4 (mapper 10)', 6],
+]) {
+  describe(name, () => {
+    const data = buildRom(mapper, 8, 4, LOOP);
+
+    it('switches the PRG-ROM bank at $8000 and fixes the rest', () => {
+      const nes = boot(data);
+      write(nes, 0xa000, 3);
+      assert.equal(prgAt(nes, 0x8000), prgBank);
+      assert.equal(prgAt(nes, 0xc000), 14);
+    });
+
+    it('switches CHR-ROM banks when tile $FD or $FE is fetched', () => {
+      const nes = boot(data);
+      write(nes, 0xb000, 1);
+      write(nes, 0xc000, 2);
+      write(nes, 0xd000, 3);
+      write(nes, 0xe000, 4);
+      // Both latches start at $FE
+      assert.equal(chrAt(nes, 0x0000), 8);
+      assert.equal(chrAt(nes, 0x1000), 16);
+
+      nes.mmap.latchAccess(0x0fd8);
+      assert.equal(nes.mmap.latch0, 0xfd);
+      assert.equal(chrAt(nes, 0x0000), 4);
+      nes.mmap.latchAccess(0x1fdd);
+      assert.equal(chrAt(nes, 0x1000), 12);
+      // Only the last row of the tile flips the latch
+      nes.mmap.latchAccess(0x0fe0);
+      assert.equal(nes.mmap.latch0, 0xfd);
+      nes.mmap.latchAccess(0x1fe8);
+      assert.equal(chrAt(nes, 0x1000), 16);
+    });
+
+    it('flips the latch while rendering a $FD tile', () => {
+      const nes = boot(data);
+      write(nes, 0xb000, 1);
+      for (let i = 0; i < 0x3c0; i++) {
+        nes.ppu.vramMem[0x2000 + i] = 0xfd;
+        nes.ppu.nameTable[0].tile[i] = 0xfd;
+      }
+      nes.ppu.updateControlReg1(0);
+      nes.ppu.updateControlReg2(0x08);
+      nes.frame();
+      nes.frame();
+      assert.equal(nes.mmap.latch0, 0xfd);
+      assert.equal(chrAt(nes, 0x0000), 4);
+    });
+
+    it('switches between vertical and horizontal mirroring', () => {
+      const nes = boot(data);
+      write(nes, 0xf000, 1);
+      assert.deepEqual(nametables(nes), [0, 0, 1, 1]);
+      write(nes, 0xf000, 0);
+      assert.deepEqual(nametables(nes), [0, 1, 0, 1]);
+    });
+
+    it('restores the latches and CHR banks from a saved state', () => {
+      const nes = boot(data);
+      write(nes, 0xb000, 1);
+      write(nes, 0xc000, 2);
+      write(nes, 0xd000, 3);
+      write(nes, 0xe000, 4);
+      nes.mmap.latchAccess(0x0fd8);
+
+      const restored = roundTrip(nes);
+      assert.equal(restored.mmap.latch0, 0xfd);
+      assert.equal(restored.mmap.latch1, 0xfe);
+      assert.deepEqual(restored.mmap.chrBanks, [1, 2, 3, 4]);
+      restored.mmap.latchAccess(0x1fd8);
+      assert.equal(chrAt(restored, 0x1000), 12);
+    });
+  });
+}
+
+describe('Namco 163 (mapper 19)', () => {
+  const ACK = [0xa9, 0x00, 0x8d, 0x00, 0x58]; // LDA #$00; STA $5800
+  const data = buildRom(19, 8, 4, LOOP, [...INC_COUNTER, ...ACK, ...RTI]);
+
+  it('switches 8KB PRG-ROM and 1KB CHR-ROM banks', () => {
+    const nes = boot(data);
+    write(nes, 0xe000, 3);
+    write(nes, 0xe800, 4);
+    write(nes, 0xf000, 5);
+    assert.deepEqual([0x8000, 0xa000, 0xc000].map((a) => prgAt(nes, a)), [3, 4, 5]);
+
+    write(nes, 0x9800, 20);
+    assert.equal(chrAt(nes, 0x0c00), 20);
+    write(nes, 0xb800, 31);
+    assert.equal(chrAt(nes, 0x1c00), 31);
+  });
+
+  it('maps each nametable slot to a CIRAM page', () => {
+    const nes = boot(data);
+    write(nes, 0xc000, 0xe1);
+    write(nes, 0xc800, 0xe0);
+    write(nes, 0xd000, 0xe1);
+    write(nes, 0xd800, 0xe0);
+    assert.deepEqual(nametables(nes), [1, 0, 1, 0]);
+    assert.equal(nes.ppu.vramMirrorTable[0x2800], 0x2000);
+  });
+
+  it('reads and writes internal RAM with auto-increment', () => {
+    const nes = boot(data);
+    write(nes, 0xf800, 0x84);
+    write(nes, 0x4800, 0x11);
+    write(nes, 0x4800, 0x22);
+    write(nes, 0xf800, 0x84);
+    assert.equal(read(nes, 0x4800), 0x11);
+    assert.equal(read(nes, 0x4800), 0x22);
+  });
+
+  it('raises the IRQ when the counter reaches $7FFF and acknowledges it on a counter write', () => {
+    const nes = boot(data);
+    write(nes, 0x5000, 0xfe);
+    write(nes, 0x5800, 0xff);
+    assert.equal(read(nes, 0x5000), 0xfe);
+    assert.equal(read(nes, 0x5800), 0xff);
+
+    assert.equal(irqLine(nes), false);
+    nes.mmap.clockCpuCycles(1);
+    assert.equal(nes.mmap.irqCounter, 0x7fff);
+    assert.equal(irqLine(nes), true);
+    // The counter stops at $7FFF and the line stays asserted
+    nes.mmap.clockCpuCycles(10);
+    assert.equal(nes.mmap.irqCounter, 0x7fff);
+    assert.equal(irqLine(nes), true);
+
+    write(nes, 0x5800, 0xff);
+    assert.equal(irqLine(nes), false);
+  });
+
+  it('runs the IRQ handler once per counter run', () => {
+    const nes = boot(data);
+    const start = 0x7fff - 1000;
+    write(nes, 0x5000, start & 0xff);
+    write(nes, 0x5800, 0x80 | (start >> 8));
+    assert.equal(countIrqs(nes, 4), 1);
+  });
+
+  it('restores internal RAM, nametables and the IRQ counter from a saved state', () => {
+    const nes = boot(data);
+    write(nes, 0xf800, 0x85);
+    write(nes, 0x4800, 1);
+    write(nes, 0xc000, 0xe1);
+    write(nes, 0x5000, 0x34);
+    write(nes, 0x5800, 0x92);
+
+    const restored = roundTrip(nes);
+    assert.equal(restored.mmap.internalRam[5], 1);
+    assert.equal(restored.mmap.ramAddress, 6);
+    assert.deepEqual(restored.mmap.nametableBanks, [1, 0, 0, 0]);
+    assert.equal(read(restored, 0x5000), 0x34);
+    assert.equal(read(restored, 0x5800), 0x92);
+  });
+});
+
+describe('VRC6 (mapper 24)', () => {
+  const ACK = [0x8d, 0x02, 0xf0]; // STA $F002
+  const data = buildRom(24, 8, 4, LOOP, [...INC_COUNTER, ...ACK, ...RTI]);
+
+  it('switches 16KB and 8KB PRG-ROM banks and 1KB CHR-ROM banks', () => {
+    const nes = boot(data);
+    write(nes, 0x8000, 3);
+    assert.equal(prgAt(nes, 0x8000), 6);
+    assert.equal(prgAt(nes, 0xa000), 7);
+    write(nes, 0xc000, 5);
+    assert.equal(prgAt(nes, 0xc000), 5);
+
+    write(nes, 0xd001, 9);
+    assert.equal(chrAt(nes, 0x0400), 9);
+    write(nes, 0xe002, 17);
+    assert.equal(chrAt(nes, 0x1800), 17);
+  });
+
+  it('selects the mirroring with $B003', () => {
+    const nes = boot(data);
+    write(nes, 0xb003, 0x00);
+    assert.deepEqual(nametables(nes), [0, 1, 0, 1]);
+    write(nes, 0xb003, 0x04);
+    assert.deepEqual(nametables(nes), [0, 0, 1, 1]);
+    write(nes, 0xb003, 0x08);
+    assert.deepEqual(nametables(nes), [0, 0, 0, 0]);
+    write(nes, 0xb003, 0x0c);
+    assert.deepEqual(nametables(nes), [1, 1, 1, 1]);
+  });
+
+  it('raises the IRQ in cycle mode and acknowledges it on a $F002 write', () => {
+    const nes = boot(data);
+    write(nes, 0xf000, 0xfe);
+    write(nes, 0xf001, 0x06);
+    nes.mmap.clockCpuCycles(1);
+    assert.equal(irqLine(nes), false);
+    nes.mmap.clockCpuCycles(1);
+    assert.equal(irqLine(nes), true);
+    // The counter reloads from the latch when it overflows
+    assert.equal(nes.mmap.irqCounter, 0xfe);
+
+    write(nes, 0xf002, 0);
+    assert.equal(irqLine(nes), false);
+    // Without the "enable after acknowledge" bit the IRQ is now off
+    assert.equal(nes.mmap.irqEnabled, false);
+  });
+
+  it('raises the IRQ in scanline mode every 341 PPU dots', () => {
+    const nes = boot(data);
+    write(nes, 0xf000, 0xff);
+    write(nes, 0xf001, 0x03);
+    // 113 CPU cycles are 339 dots, one short of a scanline
+    nes.mmap.clockCpuCycles(113);
+    assert.equal(irqLine(nes), false);
+    nes.mmap.clockCpuCycles(1);
+    assert.equal(irqLine(nes), true);
+
+    write(nes, 0xf002, 0);
+    assert.equal(irqLine(nes), false);
+    assert.equal(nes.mmap.irqEnabled, true);
+  });
+
+  it('runs the IRQ handler once per counter overflow', () => {
+    const nes = boot(data);
+    // Every 10 scanlines, 262 scanlines per frame
+    write(nes, 0xf000, 246);
+    write(nes, 0xf001, 0x03);
+    const count = countIrqs(nes, 5);
+    assert.ok(count >= 130 && count <= 131, `expected 130-131 IRQs, got ${count}`);
+  });
+
+  it('restores the IRQ mode and counter from a saved state', () => {
+    const nes = boot(data);
+    write(nes, 0x8000, 3);
+    write(nes, 0xf000, 0x80);
+    write(nes, 0xf001, 0x07);
+
+    const restored = roundTrip(nes);
+    assert.equal(restored.mmap.irqCycleMode, true);
+    assert.equal(restored.mmap.irqEnabled, true);
+    assert.equal(restored.mmap.irqLatch, 0x80);
+    assert.equal(prgAt(restored, 0x8000), 6);
+  });
+});
+
+describe('FME-7 (mapper 69)', () => {
+  // Writing command 13 acknowledges the IRQ
+  const ACK = [0xa9, 0x0d, 0x8d, 0x00, 0x80, 0xa9, 0x81, 0x8d, 0x00, 0xa0];
+  const data = buildRom(69, 8, 4, LOOP, [...INC_COUNTER, ...ACK, ...RTI]);
+
+  const command = (nes, cmd, value) => {
+    write(nes, 0x8000, cmd);
+    write(nes, 0xa000, value);
+  };
+  const setCounter = (nes, value) => {
+    command(nes, 14, value & 0xff);
+    command(nes, 15, value >> 8);
+  };
+
+  it('switches 8KB PRG-ROM and 1KB CHR-ROM banks', () => {
+    const nes = boot(data);
+    command(nes, 9, 5);
+    command(nes, 10, 6);
+    command(nes, 11, 7);
+    assert.deepEqual([0x8000, 0xa000, 0xc000].map((a) => prgAt(nes, a)), [5, 6, 7]);
+
+    command(nes, 3, 9);
+    assert.equal(chrAt(nes, 0x0c00), 9);
+  });
+
+  it('shows PRG-ROM or PRG-RAM at $6000', () => {
+    const nes = boot(data);
+    write(nes, 0x6000, 0x42);
+    command(nes, 8, 0x02);
+    assert.equal(prgAt(nes, 0x6000), 2);
+    // ROM isn't writable
+    write(nes, 0x6000, 0x99);
+    assert.equal(prgAt(nes, 0x6000), 2);
+
+    command(nes, 8, 0xc0);
+    assert.equal(prgAt(nes, 0x6000), 0x42);
+  });
+
+  it('keeps the battery RAM while PRG-ROM is shown at $6000', () => {
+    const nes = boot(data);
+    nes.mmap.loadPrgRam([0x42]);
+    command(nes, 8, 0x02);
+    assert.equal(nes.mmap.getPrgRam()[0], 0x42);
+
+    nes.mmap.loadPrgRam([0x43]);
+    assert.equal(prgAt(nes, 0x6000), 2);
+    command(nes, 8, 0xc0);
+    assert.equal(prgAt(nes, 0x6000), 0x43);
+  });
+
+  it('selects the mirroring with command 12', () => {
+    const nes = boot(data);
+    command(nes, 12, 0);
+    assert.deepEqual(nametables(nes), [0, 1, 0, 1]);
+    command(nes, 12, 1);
+    assert.deepEqual(nametables(nes), [0, 0, 1, 1]);
+    command(nes, 12, 2);
+    assert.deepEqual(nametables(nes), [0, 0, 0, 0]);
+    command(nes, 12, 3);
+    assert.deepEqual(nametables(nes), [1, 1, 1, 1]);
+  });
+
+  it('raises the IRQ when the counter wraps and acknowledges it on command 13', () => {
+    const nes = boot(data);
+    setCounter(nes, 1000);
+    command(nes, 13, 0x81);
+    nes.mmap.clockCpuCycles(1000);
+    assert.equal(irqLine(nes), false);
+    nes.mmap.clockCpuCycles(1);
+    assert.equal(nes.mmap.irqCounter, 0xffff);
+    assert.equal(irqLine(nes), true);
+
+    command(nes, 13, 0x81);
+    assert.equal(irqLine(nes), false);
+  });
+
+  it('counts down without raising the IRQ when only the counter is enabled', () => {
+    const nes = boot(data);
+    setCounter(nes, 10);
+    command(nes, 13, 0x80);
+    nes.mmap.clockCpuCycles(20);
+    assert.equal(nes.mmap.irqCounter, 0xfff6);
+    assert.equal(irqLine(nes), false);
+  });
+
+  it('runs the IRQ handler each time the counter wraps', () => {
+    const nes = boot(data);
+    setCounter(nes, 1000);
+    command(nes, 13, 0x81);
+    // ~297,800 cycles in 10 frames: the first wrap after 1,001 cycles, then every 65,536
+    assert.equal(countIrqs(nes, 10), 5);
+  });
+
+  it('restores PRG-RAM and the IRQ counter from a saved state', () => {
+    const nes = boot(data);
+    write(nes, 0x6000, 0x42);
+    command(nes, 8, 0x02);
+    setCounter(nes, 0x1234);
+    command(nes, 13, 0x81);
+
+    const restored = roundTrip(nes);
+    assert.equal(restored.mmap.prgRam[0], 0x42);
+    assert.equal(restored.mmap.irqCounter, 0x1234);
+    assert.equal(restored.mmap.irqEnabled, true);
+    assert.equal(prgAt(restored, 0x6000), 2);
+  });
+});
+
+describe('Namco 108 (mapper 206)', () => {
+  const command = (nes, cmd, value) => {
+    write(nes, 0x8000, cmd);
+    write(nes, 0x8001, value);
+  };
+
+  it('switches 8KB PRG-ROM banks and fixes the last two', () => {
+    const nes = boot(buildRom(206, 8, 4, LOOP));
+    command(nes, 6, 9);
+    command(nes, 7, 10);
+    assert.deepEqual([0x8000, 0xa000, 0xc000].map((a) => prgAt(nes, a)), [9, 10, 14]);
+  });
+
+  it('switches 2KB and 1KB CHR-ROM banks', () => {
+    const nes = boot(buildRom(206, 8, 4, LOOP));
+    command(nes, 0, 7);
+    // 2KB banks ignore the low bit
+    assert.equal(chrAt(nes, 0x0000), 6);
+    assert.equal(chrAt(nes, 0x0400), 7);
+    command(nes, 1, 12);
+    assert.equal(chrAt(nes, 0x0800), 12);
+    command(nes, 5, 30);
+    assert.equal(chrAt(nes, 0x1c00), 30);
+  });
+
+  it('uses the mirroring from the iNES header', () => {
+    assert.deepEqual(nametables(boot(buildRom(206, 8, 4, LOOP, RTI, 0))), [0, 0, 1, 1]);
+    assert.deepEqual(nametables(boot(buildRom(206, 8, 4, LOOP, RTI, 1))), [0, 1, 0, 1]);
+  });
+
+  it('restores the selected banks from a saved state', () => {
+    const nes = boot(buildRom(206, 8, 4, LOOP));
+    command(nes, 6, 9);
+    command(nes, 5, 30);
+
+    const restored = roundTrip(nes);
+    assert.equal(prgAt(restored, 0x8000), 9);
+    assert.equal(chrAt(restored, 0x1c00), 30);
+  });
+});
@@ -0,0 +1,72 @@
+'use strict';
+
+const { describe, it, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+
+require('ts-node').register({ transpileOnly: true, project: path.join(__dirname, '../tsconfig.json') });
+const { NESEmulator } = require('../src/nes');
+const { buildRom, LOOP } = require('./helpers/ines');
+
+// iNES flags 6 bit 1: battery-backed PRG-RAM
+const BATTERY = 2;
+
+describe('SRAM with banked PRG-RAM', () => {
+  let dir;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-nes-sram-'));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function loadWithSav(name, mapper, sav) {
+    const romPath = path.join(dir, `${name}.nes`);
+    fs.writeFileSync(romPath, Buffer.from(buildRom(mapper, 8, 4, LOOP, undefined, BATTERY), 'latin1'));
+    fs.writeFileSync(path.join(dir, `${name}.sav`), sav);
+    const emulator = new NESEmulator();
+    emulator.loadRom(romPath);
+    emulator.doFrame();
+    return { emulator, savPath: emulator.getSavPath() };
+  }
+
+  it('keeps an MMC5 save loaded from the .sav file when the game switches PRG-RAM banks', () => {
+    const sav = Buffer.alloc(0x2000);
+    sav.write('SAVE', 0x100, 'latin1');
+    const { emulator, savPath } = loadWithSav('mmc5', 5, sav);
+    assert.equal(emulator.readMemory('cpu', 0x6100, 4).map((b) => String.fromCharCode(b)).join(''), 'SAVE');
+
+    // The game maps PRG-RAM bank 1 and then bank 0 back at $6000
+    emulator.nes.mmap.write(0x5113, 1);
+    emulator.nes.mmap.write(0x5113, 0);
+    assert.deepEqual(emulator.exportSram(), sav);
+
+    // A debugger write is flushed along with the rest of the save
+    emulator.nes.mmap.write(0x5113, 1);
+    emulator.writeMemory(0x6000, [0x99]);
+    emulator.flushSram();
+    const saved = fs.readFileSync(savPath);
+    assert.equal(saved[0], 0x99);
+    assert.equal(saved.toString('latin1', 0x100, 0x104), 'SAVE');
+  });
+
+  it('exports the FME-7 PRG-RAM rather than the PRG-ROM bank shown at $6000', () => {
+    const sav = Buffer.alloc(0x2000, 0x5a);
+    const { emulator } = loadWithSav('fme7', 69, sav);
+
+    emulator.nes.mmap.write(0x8000, 8);
+    emulator.nes.mmap.write(0xa000, 0x02);
+    assert.equal(emulator.readMemory('cpu', 0x6000, 1)[0], 2);
+    assert.deepEqual(emulator.exportSram(), sav);
+
+    const imported = Buffer.alloc(0x2000, 0xa5);
+    emulator.importSram(imported);
+    emulator.nes.mmap.write(0xa000, 0xc0);
+    assert.deepEqual(emulator.exportSram(), imported);
+    assert.equal(emulator.readMemory('cpu', 0x6000, 1)[0], 0xa5);
+  });
+});